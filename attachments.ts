@@ -0,0 +1,96 @@
+import { App, TFile, arrayBufferToBase64 } from "obsidian";
+import { PromptAttachment } from "./types";
+
+const MIME_TYPES: Record<string, string> = {
+    png: 'image/png',
+    jpg: 'image/jpeg',
+    jpeg: 'image/jpeg',
+    gif: 'image/gif',
+    webp: 'image/webp',
+    heic: 'image/heic',
+    heif: 'image/heif',
+    pdf: 'application/pdf'
+};
+
+// ![[file.png]], ![[file.pdf#page=2]], ![[file.png|300]] and ![alt](file.png)
+const WIKI_EMBED_REGEX = /!\[\[([^\]|#]+)(?:[#|][^\]]*)?\]\]/g;
+const MARKDOWN_EMBED_REGEX = /!\[[^\]]*\]\(([^)\s]+)(?:\s+"[^"]*")?\)/g;
+
+export interface EmbedSource {
+    text: string;
+    sourcePath: string; // Note the text comes from, for link resolution
+}
+
+export interface AttachmentResult {
+    attachments: PromptAttachment[];
+    skipped: string[]; // "path (reason)" for every embed that was not sent
+}
+
+/**
+ * Resolves image and PDF embeds in the given texts to vault files and reads
+ * them as inline attachments. Embeds of notes are ignored; missing, unsupported
+ * or oversized files are reported in `skipped`.
+ */
+export async function collectAttachments(app: App, sources: EmbedSource[], maxSizeMb: number): Promise<AttachmentResult> {
+    const result: AttachmentResult = { attachments: [], skipped: [] };
+    const seen = new Set<string>();
+    const maxBytes = maxSizeMb * 1024 * 1024;
+
+    for (const source of sources) {
+        for (const linkpath of findEmbeds(source.text)) {
+            const file = app.metadataCache.getFirstLinkpathDest(linkpath, source.sourcePath);
+            if (file && file.extension === 'md') continue;
+            if (!file) {
+                result.skipped.push(`${linkpath} (not found)`);
+                continue;
+            }
+            if (seen.has(file.path)) continue;
+            seen.add(file.path);
+
+            const mimeType = MIME_TYPES[file.extension.toLowerCase()];
+            if (!mimeType) {
+                result.skipped.push(`${file.path} (unsupported type)`);
+                continue;
+            }
+            if (maxBytes > 0 && file.stat.size > maxBytes) {
+                result.skipped.push(`${file.path} (${(file.stat.size / 1024 / 1024).toFixed(1)} MB, over the ${maxSizeMb} MB limit)`);
+                continue;
+            }
+            try {
+                result.attachments.push(await readAttachment(app, file, mimeType));
+            } catch (e) {
+                console.warn(`Failed to read attachment ${file.path}:`, e);
+                result.skipped.push(`${file.path} (unreadable)`);
+            }
+        }
+    }
+    return result;
+}
+
+async function readAttachment(app: App, file: TFile, mimeType: string): Promise<PromptAttachment> {
+    const buffer = await app.vault.readBinary(file);
+    return { name: file.path, mimeType, data: arrayBufferToBase64(buffer) };
+}
+
+function findEmbeds(text: string): string[] {
+    const linkpaths: string[] = [];
+    let match: RegExpExecArray | null;
+
+    WIKI_EMBED_REGEX.lastIndex = 0;
+    while ((match = WIKI_EMBED_REGEX.exec(text)) !== null) {
+        linkpaths.push(match[1].trim());
+    }
+
+    MARKDOWN_EMBED_REGEX.lastIndex = 0;
+    while ((match = MARKDOWN_EMBED_REGEX.exec(text)) !== null) {
+        let target = match[1];
+        try {
+            target = decodeURIComponent(target);
+        } catch (e) {
+            // Not percent-encoded; use the path as written
+        }
+        if (/^[a-z][a-z0-9+.-]*:/i.test(target)) continue; // Remote images stay as text
+        linkpaths.push(target);
+    }
+    return linkpaths;
+}
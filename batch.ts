@@ -0,0 +1,358 @@
+import { App, Notice, TAbstractFile, TFile, getAllTags, getFrontMatterInfo, normalizePath } from "obsidian";
+import type GeminiNotePlugin from "./main";
+import { BatchItem, BatchJob, BatchOutputMode, GenerationRequest, OutputAction } from "./types";
+import { readInstruction } from "./instructions";
+import { renderInstructionTemplate } from "./templateVariables";
+import { VaultIndex } from "./vaultIndex";
+import { cancelledError, describeError } from "./errors";
+import { applyTokenBudget, estimateTokens, getTokenBudget } from "./tokenBudget";
+import { getProviderConfig } from "./providers";
+
+export type BatchSourceType = 'folder' | 'tag' | 'search' | 'files';
+
+export const BATCH_SOURCE_LABELS: Record<BatchSourceType, string> = {
+    folder: 'Folder',
+    tag: 'Tag',
+    search: 'Search',
+    files: 'List of Files'
+};
+
+// Search sources take at most this many of the best matches
+const MAX_SEARCH_RESULTS = 100;
+
+const OUTPUT_ACTIONS: Record<BatchOutputMode, OutputAction> = {
+    replace_note: 'replace_selection',
+    append_to_note: 'insert_after',
+    create_note: 'create_note'
+};
+
+/**
+ * Resolves a batch source to the notes it covers. Instruction files are never included.
+ *   folder: path of a folder, subfolders included
+ *   tag:    a tag with or without "#", nested tags included
+ *   search: a query against the vault index
+ *   files:  one path or [[link]] per line
+ */
+export function resolveBatchFiles(app: App, vaultIndex: VaultIndex, type: BatchSourceType, value: string, instructionsFolder: string): TFile[] {
+    const query = value.trim();
+    let files: TFile[] = [];
+
+    if (type === 'folder') {
+        const folder = normalizePath(query || '/');
+        files = app.vault.getMarkdownFiles().filter(file => folder === '/' || file.path.startsWith(folder + '/'));
+    } else if (type === 'tag') {
+        const tag = '#' + query.replace(/^#/, '').toLowerCase();
+        if (tag.length < 2) return [];
+        files = app.vault.getMarkdownFiles().filter(file => {
+            const cache = app.metadataCache.getFileCache(file);
+            const tags = cache ? getAllTags(cache) || [] : [];
+            return tags.some(fileTag => {
+                const lower = fileTag.toLowerCase();
+                return lower === tag || lower.startsWith(tag + '/');
+            });
+        });
+    } else if (type === 'search') {
+        if (!vaultIndex.isReady()) return [];
+        files = vaultIndex.search(query, MAX_SEARCH_RESULTS).map(match => match.file);
+    } else {
+        const seen = new Set<string>();
+        query.split('\n').forEach(line => {
+            const linkpath = line.trim().replace(/^\[\[/, '').replace(/\]\]$/, '').split('|')[0].trim();
+            if (!linkpath) return;
+            const file = app.metadataCache.getFirstLinkpathDest(linkpath, '');
+            if (file && file.extension === 'md' && !seen.has(file.path)) {
+                seen.add(file.path);
+                files.push(file);
+            }
+        });
+    }
+
+    const instructionsPrefix = normalizePath(instructionsFolder) + '/';
+    return files.filter(file => !file.path.startsWith(instructionsPrefix));
+}
+
+/**
+ * Runs one batch job at a time over a queue of notes, with a concurrency
+ * limit. The job is saved to `batch.json` after every item so that pausing,
+ * or closing Obsidian mid-run, loses nothing.
+ */
+export class BatchQueue {
+    private plugin: GeminiNotePlugin;
+    private app: App;
+    private path: string;
+    private job: BatchJob | null = null;
+    private activeWorkers = 0;
+    private listeners: (() => void)[] = [];
+    private writes: Promise<void> = Promise.resolve();
+    private controller = new AbortController(); // Aborts the requests of the current job
+
+    constructor(plugin: GeminiNotePlugin, pluginDir: string) {
+        this.plugin = plugin;
+        this.app = plugin.app;
+        this.path = normalizePath(`${pluginDir}/batch.json`);
+    }
+
+    async load() {
+        try {
+            if (await this.app.vault.adapter.exists(this.path)) {
+                this.job = JSON.parse(await this.app.vault.adapter.read(this.path));
+            }
+        } catch (e) {
+            console.error("Failed to load batch job:", e);
+            this.job = null;
+        }
+        // Items that were in flight when Obsidian closed start over
+        this.job?.items.forEach(item => {
+            if (item.status === 'running') item.status = 'pending';
+        });
+    }
+
+    getJob(): BatchJob | null {
+        return this.job;
+    }
+
+    hasUnfinishedJob(): boolean {
+        return !!this.job && this.job.state !== 'finished';
+    }
+
+    onChange(listener: () => void): () => void {
+        this.listeners.push(listener);
+        return () => {
+            this.listeners = this.listeners.filter(l => l !== listener);
+        };
+    }
+
+    async start(options: Pick<BatchJob, 'instructionPath' | 'provider' | 'model' | 'outputMode' | 'saveLocation'>, files: TFile[]) {
+        const createdAt = Date.now();
+        this.controller = new AbortController();
+        this.job = Object.assign({}, options, {
+            id: `${createdAt}-${Math.random().toString(36).slice(2, 8)}`,
+            createdAt,
+            state: 'running' as const,
+            items: files.map(file => ({ path: file.path, status: 'pending' as const }))
+        });
+        await this.persist();
+        this.pump();
+    }
+
+    /**
+     * Continues a job that was running when Obsidian closed. Paused jobs stay paused.
+     */
+    resumeInterrupted() {
+        if (this.job && this.job.state === 'running') this.pump();
+    }
+
+    async pause() {
+        if (!this.job || this.job.state !== 'running') return;
+        this.job.state = 'paused';
+        await this.persist();
+    }
+
+    async resume() {
+        if (!this.job || this.job.state !== 'paused') return;
+        this.job.state = 'running';
+        await this.persist();
+        this.pump();
+    }
+
+    async retryFailed() {
+        const job = this.job;
+        if (!job) return;
+        job.items.forEach(item => {
+            if (item.status === 'failed') {
+                item.status = 'pending';
+                item.error = undefined;
+            }
+        });
+        job.state = 'running';
+        await this.persist();
+        this.pump();
+    }
+
+    /**
+     * Forgets the job. Requests in flight are cancelled, so nothing more is written.
+     */
+    async discard() {
+        this.controller.abort();
+        this.controller = new AbortController();
+        this.job = null;
+        await this.persist();
+    }
+
+    handleRename(file: TAbstractFile, oldPath: string) {
+        if (!this.job) return;
+        let changed = false;
+        this.job.items.forEach(item => {
+            if (item.path === oldPath) {
+                item.path = file.path;
+                changed = true;
+            }
+            if (item.createdNotePath === oldPath) {
+                item.createdNotePath = file.path;
+                changed = true;
+            }
+        });
+        if (changed) this.persist();
+    }
+
+    private pump() {
+        const job = this.job;
+        if (!job) return;
+        const concurrency = Math.max(1, this.plugin.settings.batchConcurrency);
+        while (this.activeWorkers < concurrency && job.items.some(item => item.status === 'pending')) {
+            this.runWorker(job);
+        }
+        if (this.activeWorkers === 0) this.finishIfDone(job);
+    }
+
+    private async runWorker(job: BatchJob) {
+        this.activeWorkers++;
+        try {
+            while (this.job === job && job.state === 'running') {
+                const item = job.items.find(candidate => candidate.status === 'pending');
+                if (!item) break;
+                item.status = 'running';
+                this.notify();
+                try {
+                    await this.processItem(job, item);
+                    item.status = 'done';
+                } catch (error) {
+                    console.error(`Batch item failed: ${item.path}`, error);
+                    item.status = 'failed';
+                    item.error = describeError(error);
+                }
+                if (this.job === job) await this.persist();
+            }
+        } finally {
+            this.activeWorkers--;
+            if (this.activeWorkers === 0) this.finishIfDone(job);
+        }
+    }
+
+    private async finishIfDone(job: BatchJob) {
+        if (this.job !== job || job.state !== 'running') return;
+        if (job.items.some(item => item.status === 'pending' || item.status === 'running')) return;
+
+        job.state = 'finished';
+        await this.persist();
+        const failed = job.items.filter(item => item.status === 'failed').length;
+        new Notice(failed > 0
+            ? `Batch finished: ${job.items.length - failed} done, ${failed} failed. See the batch view for the failure report.`
+            : `Batch finished: all ${job.items.length} notes done.`, 10000);
+    }
+
+    private async processItem(job: BatchJob, item: BatchItem) {
+        const signal = this.controller.signal;
+        const file = this.app.vault.getAbstractFileByPath(item.path);
+        if (!(file instanceof TFile)) throw new Error("Note not found");
+
+        const instruction = await readInstruction(this.app, job.instructionPath);
+        if (!instruction.body.trim()) throw new Error(`Instruction not found or empty: ${job.instructionPath}`);
+
+        const content = await this.app.vault.read(file);
+        const body = content.slice(getFrontMatterInfo(content).contentStart);
+        const outputAction = OUTPUT_ACTIONS[job.outputMode];
+        // Interactive collision strategies would stall the queue
+        const collisionStrategy = this.plugin.settings.noteCollisionStrategy === 'append' ? 'append' : 'suffix';
+
+        const request: GenerationRequest = {
+            instructionPath: job.instructionPath,
+            instructionContent: instruction.body,
+            contextType: 'selection_only',
+            saveLocation: job.saveLocation,
+            selectedText: body,
+            contextBefore: "",
+            contextAfter: "",
+            parentNoteContent: content,
+            parentNoteTitle: file.name,
+            sectionContent: "",
+            scopeNotesContext: "",
+            scopeNotePaths: [],
+            backgroundContext: "",
+            backgroundFilePaths: [],
+            outputAction,
+            collisionStrategy,
+            temperature: instruction.overrides.temperature
+        };
+
+        const settings = this.plugin.getRunSettings(job.provider, job.model, outputAction, instruction.overrides);
+        const notes: string[] = [];
+
+        // Like the parent note of an interactive run, an oversized note is cut
+        // down to its first sections. A note that gets replaced must be sent whole.
+        // This happens before the template is filled in, so {{selection}} gets the trimmed text.
+        const budget = getTokenBudget(settings, getProviderConfig(settings).modelName);
+        const metaPrompt = outputAction === 'create_note' ? settings.createNoteMetaPrompt : settings.inPlaceMetaPrompt;
+        const overBudget = () => new Error(`Note is about ${estimateTokens(body)} tokens, over the ${budget}-token budget for this model`);
+        const fitted = applyTokenBudget({
+            fixedText: [metaPrompt, instruction.body].join('\n'),
+            parentNoteContent: body,
+            selectionOffset: 0,
+            references: []
+        }, budget);
+        if (fitted.parentTrimmed) {
+            if (job.outputMode === 'replace_note' || fitted.overBudget) throw overBudget();
+            request.selectedText = fitted.parentNoteContent;
+            notes.push("trimmed to fit the token budget");
+        }
+
+        const cache = this.app.metadataCache.getFileCache(file);
+        request.instructionContent = await renderInstructionTemplate(instruction.body, {
+            request,
+            notePath: file.path,
+            frontmatter: cache?.frontmatter || {},
+            heading: ""
+        });
+        // Placeholders can repeat the note in the instruction, so measure again
+        if (budget > 0 && estimateTokens([metaPrompt, request.instructionContent, request.selectedText].join('\n')) > budget) {
+            throw overBudget();
+        }
+
+        const attachments = await this.plugin.collectRequestAttachments(request, file, [], settings);
+        request.attachments = attachments.attachments;
+        if (attachments.skipped.length > 0) {
+            notes.push(`attachments not sent: ${attachments.skipped.join(', ')}`);
+        }
+        item.note = notes.length > 0 ? notes.join('; ') : undefined;
+
+        const response = await this.plugin.createService(settings).generateNote(request, undefined, signal);
+        if (signal.aborted) throw cancelledError();
+
+        if (job.outputMode === 'create_note') {
+            const created = await this.plugin.createNoteFile(response, request, file, settings);
+            if (!created) throw new Error("Note could not be created");
+            item.createdNotePath = created.file.path;
+        } else if (job.outputMode === 'replace_note') {
+            // Edits made while the request ran would be overwritten, so the item fails instead and can be retried
+            let changed = false;
+            await this.app.vault.process(file, data => {
+                const contentStart = getFrontMatterInfo(data).contentStart;
+                if (data.slice(contentStart) !== body) {
+                    changed = true;
+                    return data;
+                }
+                return data.slice(0, contentStart) + response.content.trim() + '\n';
+            });
+            if (changed) throw new Error("Note changed during generation; it was left unchanged");
+        } else {
+            // Appending keeps whatever the note holds now, so edits made meanwhile are not lost
+            await this.app.vault.process(file, data => `${data.replace(/\s*$/, '')}\n\n${response.content.trim()}\n`);
+        }
+    }
+
+    private notify() {
+        this.listeners.forEach(listener => listener());
+    }
+
+    private persist(): Promise<void> {
+        this.notify();
+        const data = this.job ? JSON.stringify(this.job, null, 2) : null;
+        // Chain writes so parallel workers cannot interleave them
+        this.writes = this.writes
+            .then(() => data !== null
+                ? this.app.vault.adapter.write(this.path, data)
+                : this.app.vault.adapter.exists(this.path).then(exists => exists ? this.app.vault.adapter.remove(this.path) : undefined))
+            .catch(e => console.error("Failed to save batch job:", e));
+        return this.writes;
+    }
+}
@@ -0,0 +1,211 @@
+import { App, Modal, Notice, Setting, TFile } from "obsidian";
+import type GeminiNotePlugin from "./main";
+import { BATCH_OUTPUT_LABELS, BatchOutputMode, ProviderId } from "./types";
+import { addInstructionOptions, listInstructionFiles, readInstruction } from "./instructions";
+import { getProviderConfig, getProviderConfigError } from "./providers";
+import { BATCH_SOURCE_LABELS, BatchSourceType, resolveBatchFiles } from "./batch";
+
+const SOURCE_PLACEHOLDERS: Record<BatchSourceType, string> = {
+    folder: 'e.g. Projects/Research',
+    tag: 'e.g. #to-summarize',
+    search: 'Words to search for',
+    files: 'One path or [[link]] per line'
+};
+
+/**
+ * Picks the instruction, the notes and the output mode of a batch run.
+ */
+export class BatchModal extends Modal {
+    private plugin: GeminiNotePlugin;
+    private onStart: () => void;
+
+    private instructionPath = "";
+    private sourceType: BatchSourceType = 'folder';
+    private sourceValue = "";
+    private outputMode: BatchOutputMode = 'append_to_note';
+    private saveLocation: string;
+    private provider: ProviderId;
+    private modelName: string;
+    private matchedFiles: TFile[] = [];
+
+    private sourceInputEl: HTMLTextAreaElement | null = null;
+    private matchCountEl: HTMLElement | null = null;
+    private saveLocationSettingEl: HTMLElement | null = null;
+    private startButtonEl: HTMLButtonElement | null = null;
+    private instructionRead: Promise<void> = Promise.resolve();
+    private loadingInstruction = false;
+
+    // Explicitly declare properties
+    contentEl: HTMLElement;
+    app: App;
+
+    constructor(app: App, plugin: GeminiNotePlugin, onStart: () => void) {
+        super(app);
+        this.plugin = plugin;
+        this.onStart = onStart;
+        this.saveLocation = plugin.settings.defaultSaveLocation;
+        this.provider = plugin.settings.provider;
+        this.modelName = getProviderConfig(plugin.settings).modelName;
+        // Default to the folder of the active note
+        this.sourceValue = app.workspace.getActiveFile()?.parent?.path || "";
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        const settings = this.plugin.settings;
+        contentEl.empty();
+        contentEl.createEl("h2", { text: "Batch Apply Instruction" });
+
+        const instructions = listInstructionFiles(this.app, settings.instructionsFolder);
+        if (instructions.length === 0) {
+            contentEl.createEl("p", { text: "No instructions found in the configured folder." });
+            return;
+        }
+        this.instructionPath = instructions[0].path;
+        new Setting(contentEl)
+            .setName("Task Instruction")
+            .setDesc("Applied to the whole body of each note")
+            .addDropdown(dropdown => {
+                addInstructionOptions(dropdown, instructions, settings.instructionsFolder);
+                dropdown.setValue(this.instructionPath);
+                dropdown.onChange((value) => { this.instructionRead = this.selectInstruction(value); });
+            });
+        this.instructionRead = this.selectInstruction(this.instructionPath);
+
+        new Setting(contentEl)
+            .setName("Notes")
+            .setDesc("Which notes to process")
+            .addDropdown(dropdown => {
+                (Object.keys(BATCH_SOURCE_LABELS) as BatchSourceType[]).forEach(type => {
+                    dropdown.addOption(type, BATCH_SOURCE_LABELS[type]);
+                });
+                dropdown.setValue(this.sourceType);
+                dropdown.onChange((value) => {
+                    this.sourceType = value as BatchSourceType;
+                    if (this.sourceInputEl) {
+                        this.sourceInputEl.placeholder = SOURCE_PLACEHOLDERS[this.sourceType];
+                        this.sourceInputEl.style.height = this.sourceType === 'files' ? '100px' : '2.5em';
+                    }
+                    this.updateMatches();
+                });
+            });
+
+        this.sourceInputEl = contentEl.createEl('textarea');
+        this.sourceInputEl.style.width = '100%';
+        this.sourceInputEl.style.height = '2.5em';
+        this.sourceInputEl.placeholder = SOURCE_PLACEHOLDERS[this.sourceType];
+        this.sourceInputEl.value = this.sourceValue;
+        this.sourceInputEl.addEventListener('input', () => {
+            this.sourceValue = this.sourceInputEl!.value;
+            this.updateMatches();
+        });
+
+        this.matchCountEl = contentEl.createEl('small');
+        this.matchCountEl.style.display = 'block';
+        this.matchCountEl.style.color = 'var(--text-muted)';
+        this.matchCountEl.style.marginBottom = '10px';
+        this.updateMatches();
+
+        new Setting(contentEl)
+            .setName("Output Mode")
+            .setDesc("Where each result is written")
+            .addDropdown(dropdown => {
+                (Object.keys(BATCH_OUTPUT_LABELS) as BatchOutputMode[]).forEach(mode => {
+                    dropdown.addOption(mode, BATCH_OUTPUT_LABELS[mode]);
+                });
+                dropdown.setValue(this.outputMode);
+                dropdown.onChange((value) => {
+                    this.outputMode = value as BatchOutputMode;
+                    this.updateSaveLocationVisibility();
+                });
+            });
+
+        const saveLocationSetting = new Setting(contentEl)
+            .setName("Save Location (Subfolder)")
+            .setDesc("Leave empty to save next to each source note")
+            .addText(text => text
+                .setValue(this.saveLocation)
+                .onChange(value => {
+                    this.saveLocation = value;
+                }));
+        this.saveLocationSettingEl = saveLocationSetting.settingEl;
+        this.updateSaveLocationVisibility();
+
+        new Setting(contentEl)
+            .setDesc(`Runs ${settings.batchConcurrency} note(s) at a time. The batch can be paused, and continues after a restart.`)
+            .addButton(btn => {
+                btn.setButtonText("Start Batch")
+                    .setCta()
+                    .onClick(() => this.start());
+                this.startButtonEl = btn.buttonEl;
+                this.updateStartButton();
+            });
+    }
+
+    /**
+     * Picks up the instruction's own provider and model, like the generation
+     * dialog does. Starting waits until they are read.
+     */
+    private async selectInstruction(path: string) {
+        this.instructionPath = path;
+        this.loadingInstruction = true;
+        this.updateStartButton();
+        const { overrides } = await readInstruction(this.app, path);
+        if (path !== this.instructionPath) return; // Selection changed while reading
+        this.provider = overrides.provider ?? this.plugin.settings.provider;
+        this.modelName = overrides.model ?? getProviderConfig(this.plugin.settings, this.provider).modelName;
+        this.loadingInstruction = false;
+        this.updateStartButton();
+    }
+
+    private updateStartButton() {
+        if (this.startButtonEl) this.startButtonEl.disabled = this.loadingInstruction;
+    }
+
+    private updateMatches() {
+        this.matchedFiles = resolveBatchFiles(this.app, this.plugin.vaultIndex, this.sourceType, this.sourceValue, this.plugin.settings.instructionsFolder);
+        if (!this.matchCountEl) return;
+        if (this.sourceType === 'search' && !this.plugin.vaultIndex.isReady()) {
+            this.matchCountEl.setText("Search needs the vault index. Enable background suggestions in the settings.");
+            return;
+        }
+        const preview = this.matchedFiles.slice(0, 3).map(file => file.basename).join(', ');
+        this.matchCountEl.setText(this.matchedFiles.length === 0
+            ? "No matching notes."
+            : `${this.matchedFiles.length} note(s): ${preview}${this.matchedFiles.length > 3 ? ', ...' : ''}`);
+    }
+
+    private updateSaveLocationVisibility() {
+        if (this.saveLocationSettingEl) {
+            this.saveLocationSettingEl.style.display = this.outputMode === 'create_note' ? 'flex' : 'none';
+        }
+    }
+
+    private async start() {
+        await this.instructionRead;
+        if (this.loadingInstruction) return; // Another instruction was picked meanwhile
+        if (this.matchedFiles.length === 0) {
+            new Notice("No notes to process.");
+            return;
+        }
+        const configError = getProviderConfigError(this.plugin.settings, this.provider);
+        if (configError) {
+            new Notice(configError);
+            return;
+        }
+
+        (this as any).close();
+        await this.plugin.batch.start({
+            instructionPath: this.instructionPath,
+            provider: this.provider,
+            model: this.modelName,
+            outputMode: this.outputMode,
+            saveLocation: this.saveLocation
+        }, this.matchedFiles);
+        this.onStart();
+    }
+
+    onClose() {
+        this.contentEl.empty();
+    }
+}
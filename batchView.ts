@@ -0,0 +1,156 @@
+import { ItemView, Notice, TFile, WorkspaceLeaf } from "obsidian";
+import type GeminiNotePlugin from "./main";
+import { BATCH_OUTPUT_LABELS, BatchItem, BatchJob } from "./types";
+
+export const BATCH_VIEW_TYPE = 'gemini-note-batch';
+
+const STATUS_ICONS: Record<BatchItem['status'], string> = {
+    pending: '○',
+    running: '◐',
+    done: '✓',
+    failed: '✗'
+};
+
+/**
+ * Sidebar view showing the progress of the current batch job, with
+ * pause/resume controls and the failure report once it finishes.
+ */
+export class BatchView extends ItemView {
+    private plugin: GeminiNotePlugin;
+    private unsubscribe: (() => void) | null = null;
+
+    constructor(leaf: WorkspaceLeaf, plugin: GeminiNotePlugin) {
+        super(leaf);
+        this.plugin = plugin;
+    }
+
+    getViewType(): string {
+        return BATCH_VIEW_TYPE;
+    }
+
+    getDisplayText(): string {
+        return "Gemini Batch";
+    }
+
+    getIcon(): string {
+        return "list-checks";
+    }
+
+    async onOpen() {
+        this.contentEl.addClass("gemini-batch-view");
+        this.unsubscribe = this.plugin.batch.onChange(() => this.render());
+        this.render();
+    }
+
+    async onClose() {
+        this.unsubscribe?.();
+        this.unsubscribe = null;
+    }
+
+    private render() {
+        const container = this.contentEl;
+        container.empty();
+
+        const job = this.plugin.batch.getJob();
+        if (!job) {
+            container.createEl('p', { text: 'No batch job. Run "Batch Apply Instruction" to start one.' })
+                .style.color = 'var(--text-muted)';
+            return;
+        }
+
+        const counts = { pending: 0, running: 0, done: 0, failed: 0 };
+        job.items.forEach(item => counts[item.status]++);
+        const total = job.items.length;
+
+        const instructionName = job.instructionPath.split('/').pop()?.replace(/\.md$/, '') || 'Instruction';
+        container.createEl('h4', { text: `${instructionName} · ${BATCH_OUTPUT_LABELS[job.outputMode]}` }).style.margin = '0 0 4px 0';
+        const metaEl = container.createDiv();
+        metaEl.style.fontSize = '0.8em';
+        metaEl.style.color = 'var(--text-muted)';
+        metaEl.setText(`${new Date(job.createdAt).toLocaleString()} · ${job.model} · ${job.state}`);
+
+        const progress = container.createEl('progress');
+        progress.style.width = '100%';
+        progress.max = total;
+        progress.value = counts.done + counts.failed;
+        const summaryEl = container.createDiv();
+        summaryEl.style.fontSize = '0.9em';
+        summaryEl.setText(`${counts.done + counts.failed} / ${total} · ${counts.done} done · ${counts.failed} failed · ${counts.running} running`);
+
+        this.renderControls(container, job, counts.failed);
+
+        if (job.state === 'finished' && counts.failed > 0) {
+            container.createEl('h6', { text: 'Failures' }).style.margin = '10px 0 2px 0';
+            job.items
+                .filter(item => item.status === 'failed')
+                .forEach(item => this.renderItem(container, item));
+        }
+
+        container.createEl('h6', { text: 'Notes' }).style.margin = '10px 0 2px 0';
+        job.items.forEach(item => this.renderItem(container, item));
+    }
+
+    private renderControls(container: HTMLElement, job: BatchJob, failedCount: number) {
+        const actionsEl = container.createDiv();
+        actionsEl.style.display = 'flex';
+        actionsEl.style.flexWrap = 'wrap';
+        actionsEl.style.gap = '5px';
+        actionsEl.style.marginTop = '6px';
+
+        const addButton = (text: string, onClick: () => void) => {
+            const btn = actionsEl.createEl('button', { text });
+            btn.onclick = onClick;
+        };
+
+        if (job.state === 'running') addButton('Pause', () => this.plugin.batch.pause());
+        if (job.state === 'paused') addButton('Resume', () => this.plugin.batch.resume());
+        if (failedCount > 0 && job.state !== 'running') addButton('Retry Failed', () => this.plugin.batch.retryFailed());
+        if (failedCount > 0) {
+            addButton('Copy Report', () => {
+                navigator.clipboard.writeText(buildFailureReport(job));
+                new Notice("Failure report copied to clipboard.");
+            });
+        }
+        addButton(job.state === 'finished' ? 'Clear' : 'Cancel', async () => {
+            if (job.state !== 'finished' && !window.confirm("Cancel this batch? Notes that were not processed yet are skipped.")) return;
+            await this.plugin.batch.discard();
+        });
+    }
+
+    private renderItem(container: HTMLElement, item: BatchItem) {
+        const itemEl = container.createDiv();
+        itemEl.style.fontSize = '0.85em';
+        itemEl.style.padding = '2px 0';
+
+        const titleEl = itemEl.createSpan({ text: `${STATUS_ICONS[item.status]} ${item.path}` });
+        titleEl.style.cursor = 'pointer';
+        titleEl.style.color = item.status === 'failed' ? 'var(--text-error)' : '';
+        titleEl.onclick = () => this.openFile(item.createdNotePath || item.path);
+
+        if (item.note && item.status === 'done') {
+            const noteEl = itemEl.createDiv({ text: item.note });
+            noteEl.style.color = 'var(--text-muted)';
+            noteEl.style.marginLeft = '1.5em';
+        }
+        if (item.error) {
+            const errorEl = itemEl.createDiv({ text: item.error });
+            errorEl.style.color = 'var(--text-muted)';
+            errorEl.style.marginLeft = '1.5em';
+        }
+    }
+
+    private async openFile(path: string) {
+        const file = this.app.vault.getAbstractFileByPath(path);
+        if (!(file instanceof TFile)) {
+            new Notice(`File not found: ${path}`);
+            return;
+        }
+        await this.app.workspace.getLeaf(false).openFile(file);
+    }
+}
+
+function buildFailureReport(job: BatchJob): string {
+    const failed = job.items.filter(item => item.status === 'failed');
+    const lines = failed.map(item => `- [[${item.path.replace(/\.md$/, '')}]]: ${item.error || 'Unknown error'}`);
+    return `Batch "${job.instructionPath}" (${new Date(job.createdAt).toLocaleString()}): ${failed.length} of ${job.items.length} failed\n\n${lines.join('\n')}\n`;
+}
@@ -0,0 +1,355 @@
+import { Editor, ItemView, MarkdownRenderer, MarkdownView, Notice, TFile, WorkspaceLeaf, moment } from "obsidian";
+import type GeminiNotePlugin from "./main";
+import { ChatMessage } from "./types";
+import { createProvider, getProviderConfig, getProviderConfigError } from "./providers";
+import { applyTokenBudget, formatReference, getTokenBudget } from "./tokenBudget";
+import { NoteSuggestModal, promptForText } from "./promptModals";
+import { cancelledError, describeError, isCancelled } from "./errors";
+
+export const CHAT_VIEW_TYPE = 'gemini-note-chat';
+
+/**
+ * Sidebar view for a multi-turn conversation about the active note.
+ */
+export class ChatView extends ItemView {
+    private plugin: GeminiNotePlugin;
+    private messages: ChatMessage[] = [];
+    private backgroundFiles: TFile[] = [];
+    private useActiveNote = true;
+    private busy = false;
+    // The chat input takes focus, so the note being discussed is the last markdown view that was active
+    private noteView: MarkdownView | null = null;
+
+    private contextEl: HTMLElement | null = null;
+    private messagesEl: HTMLElement | null = null;
+    private inputEl: HTMLTextAreaElement | null = null;
+    private sendBtn: HTMLButtonElement | null = null;
+
+    constructor(leaf: WorkspaceLeaf, plugin: GeminiNotePlugin) {
+        super(leaf);
+        this.plugin = plugin;
+    }
+
+    getViewType(): string {
+        return CHAT_VIEW_TYPE;
+    }
+
+    getDisplayText(): string {
+        return "Gemini Chat";
+    }
+
+    getIcon(): string {
+        return "message-square";
+    }
+
+    async onOpen() {
+        const container = this.contentEl;
+        container.empty();
+        container.addClass("gemini-chat-view");
+        container.style.display = 'flex';
+        container.style.flexDirection = 'column';
+
+        const headerEl = container.createDiv('gemini-chat-header');
+        headerEl.style.display = 'flex';
+        headerEl.style.gap = '5px';
+        headerEl.style.marginBottom = '6px';
+
+        const addRefBtn = headerEl.createEl('button', { text: '+ Reference' });
+        addRefBtn.onclick = () => {
+            (new NoteSuggestModal(this.app, this.backgroundFiles, file => {
+                this.backgroundFiles.push(file);
+                this.renderContext();
+            }) as any).open();
+        };
+        const exportBtn = headerEl.createEl('button', { text: 'Export' });
+        exportBtn.onclick = () => this.exportConversation();
+        const clearBtn = headerEl.createEl('button', { text: 'Clear' });
+        clearBtn.onclick = () => {
+            this.messages = [];
+            this.renderMessages();
+        };
+
+        this.contextEl = container.createDiv('gemini-chat-context');
+        this.contextEl.style.fontSize = '0.8em';
+        this.contextEl.style.color = 'var(--text-muted)';
+        this.contextEl.style.marginBottom = '6px';
+
+        this.messagesEl = container.createDiv('gemini-chat-messages');
+        this.messagesEl.style.flexGrow = '1';
+        this.messagesEl.style.overflowY = 'auto';
+
+        const inputContainer = container.createDiv('gemini-chat-input');
+        inputContainer.style.display = 'flex';
+        inputContainer.style.gap = '5px';
+        inputContainer.style.marginTop = '6px';
+
+        this.inputEl = inputContainer.createEl('textarea', { attr: { placeholder: 'Ask about this note... (Enter to send, Shift+Enter for a new line)' } });
+        this.inputEl.style.flexGrow = '1';
+        this.inputEl.style.height = '60px';
+        this.inputEl.addEventListener('keydown', (e) => {
+            if (e.key === 'Enter' && !e.shiftKey) {
+                e.preventDefault();
+                this.send();
+            }
+        });
+        this.sendBtn = inputContainer.createEl('button', { text: 'Send' });
+        this.sendBtn.onclick = () => this.send();
+
+        this.noteView = this.app.workspace.getActiveViewOfType(MarkdownView)
+            || this.app.workspace.getLeavesOfType('markdown').map(leaf => leaf.view as MarkdownView)[0]
+            || null;
+        (this as any).registerEvent(this.app.workspace.on('active-leaf-change', (leaf) => {
+            if (leaf && leaf.view instanceof MarkdownView) {
+                this.noteView = leaf.view;
+                this.renderContext();
+            }
+        }));
+
+        this.renderContext();
+        this.renderMessages();
+    }
+
+    private getNoteFile(): TFile | null {
+        return this.noteView?.file || null;
+    }
+
+    private getEditor(): Editor | null {
+        // The view may have been closed since it was last active
+        if (!this.noteView || !this.noteView.file) return null;
+        return this.noteView.editor;
+    }
+
+    private renderContext() {
+        const el = this.contextEl;
+        if (!el) return;
+        el.empty();
+
+        const noteRow = el.createDiv();
+        const toggle = noteRow.createEl('input', { type: 'checkbox' });
+        toggle.checked = this.useActiveNote;
+        toggle.onchange = () => {
+            this.useActiveNote = toggle.checked;
+        };
+        const noteFile = this.getNoteFile();
+        noteRow.createSpan({ text: ` Active note: ${noteFile ? noteFile.basename : '(none)'}` });
+
+        if (this.backgroundFiles.length === 0) return;
+        const refsRow = el.createDiv();
+        refsRow.style.display = 'flex';
+        refsRow.style.flexWrap = 'wrap';
+        refsRow.style.gap = '5px';
+        refsRow.style.marginTop = '4px';
+        this.backgroundFiles.forEach((file, index) => {
+            const tag = refsRow.createDiv('nav-file-tag');
+            tag.style.backgroundColor = 'var(--background-secondary)';
+            tag.style.padding = '2px 8px';
+            tag.style.borderRadius = '4px';
+            tag.createSpan({ text: file.basename });
+            const removeBtn = tag.createSpan({ text: ' ×' });
+            removeBtn.style.cursor = 'pointer';
+            removeBtn.onclick = () => {
+                this.backgroundFiles.splice(index, 1);
+                this.renderContext();
+            };
+        });
+    }
+
+    private renderMessages() {
+        const el = this.messagesEl;
+        if (!el) return;
+        el.empty();
+        if (this.messages.length === 0) {
+            el.createEl('p', { text: 'Ask a question about the active note.' }).style.color = 'var(--text-muted)';
+            return;
+        }
+        this.messages.forEach(message => {
+            const bodyEl = this.createMessageEl(message.role);
+            if (message.role === 'user') {
+                bodyEl.setText(message.content);
+            } else {
+                this.renderReply(bodyEl, message.content);
+            }
+        });
+        el.scrollTop = el.scrollHeight;
+    }
+
+    private createMessageEl(role: ChatMessage['role']): HTMLElement {
+        const messageEl = this.messagesEl!.createDiv(`gemini-chat-message gemini-chat-${role}`);
+        messageEl.style.padding = '6px 8px';
+        messageEl.style.marginBottom = '6px';
+        messageEl.style.borderRadius = '6px';
+        messageEl.style.backgroundColor = role === 'user' ? 'var(--background-secondary)' : 'transparent';
+        messageEl.style.border = role === 'user' ? 'none' : '1px solid var(--background-modifier-border)';
+        const bodyEl = messageEl.createDiv();
+        bodyEl.style.whiteSpace = role === 'user' ? 'pre-wrap' : 'normal';
+        bodyEl.style.userSelect = 'text';
+        return bodyEl;
+    }
+
+    private renderReply(bodyEl: HTMLElement, content: string) {
+        bodyEl.empty();
+        MarkdownRenderer.render(this.app, content, bodyEl, this.getNoteFile()?.path || "", this);
+
+        const actionsEl = bodyEl.parentElement!.createDiv();
+        actionsEl.style.display = 'flex';
+        actionsEl.style.flexWrap = 'wrap';
+        actionsEl.style.gap = '5px';
+        actionsEl.style.marginTop = '6px';
+
+        const addButton = (text: string, onClick: () => void) => {
+            const btn = actionsEl.createEl('button', { text });
+            btn.style.fontSize = '0.8em';
+            btn.onclick = onClick;
+        };
+
+        addButton('Insert at Cursor', () => {
+            const editor = this.getEditor();
+            if (!editor) {
+                new Notice("Open a note to insert into.");
+                return;
+            }
+            editor.replaceRange(content, editor.getCursor('to'));
+        });
+        addButton('Replace Selection', () => {
+            const editor = this.getEditor();
+            if (!editor || !editor.somethingSelected()) {
+                new Notice("Select the text to replace in a note first.");
+                return;
+            }
+            editor.replaceSelection(content);
+        });
+        addButton('Save as Note', () => this.saveAsNote(content));
+        addButton('Copy', () => {
+            navigator.clipboard.writeText(content);
+            new Notice("Reply copied to clipboard.");
+        });
+    }
+
+    private async send() {
+        const inputEl = this.inputEl;
+        if (!inputEl || this.busy) return;
+        const question = inputEl.value.trim();
+        if (!question) return;
+
+        const configError = getProviderConfigError(this.plugin.settings);
+        if (configError) {
+            new Notice(configError);
+            return;
+        }
+
+        // Claimed before the first await, so a second Enter cannot send the question twice
+        this.busy = true;
+        const settings = this.plugin.settings;
+        const noteFile = this.useActiveNote ? this.getNoteFile() : null;
+        const editor = noteFile ? this.getEditor() : null;
+        const noteContent = editor ? editor.getValue() : "";
+        const references = await this.plugin.readReferenceFiles(this.backgroundFiles.map(file => file.path));
+
+        this.messages.push({ role: 'user', content: question });
+        const budget = getTokenBudget(settings, getProviderConfig(settings).modelName);
+        const fitted = applyTokenBudget({
+            fixedText: settings.chatMetaPrompt + this.messages.map(message => message.content).join('\n'),
+            parentNoteContent: noteContent,
+            selectionOffset: editor ? editor.posToOffset(editor.getCursor('from')) : 0,
+            references
+        }, budget);
+        if (fitted.overBudget) {
+            this.messages.pop();
+            this.busy = false;
+            new Notice(`The conversation is about ${fitted.totalTokens} tokens, over the ${budget}-token budget. Clear the chat to start over.`);
+            return;
+        }
+
+        inputEl.value = "";
+        this.setBusy(true);
+        this.renderMessages();
+        const bodyEl = this.createMessageEl('model');
+        bodyEl.style.whiteSpace = 'pre-wrap';
+        bodyEl.setText('…');
+
+        const prompt = buildChatPrompt(
+            settings.chatMetaPrompt,
+            noteFile ? noteFile.basename : "",
+            fitted.parentNoteContent,
+            fitted.references.map(formatReference).join(''),
+            this.messages
+        );
+
+        const job = this.plugin.jobs.start("Chat reply");
+        try {
+            let streamed = "";
+            const reply = await createProvider(settings).stream(prompt, chunk => {
+                if (job.controller.signal.aborted) return;
+                streamed += chunk;
+                bodyEl.setText(streamed);
+                this.messagesEl!.scrollTop = this.messagesEl!.scrollHeight;
+            }, { signal: job.controller.signal });
+            if (job.controller.signal.aborted) throw cancelledError();
+            this.messages.push({ role: 'model', content: reply.trim() });
+            this.renderMessages();
+        } catch (error) {
+            // Drop the unanswered question so the next turn starts from a consistent history
+            this.messages.pop();
+            inputEl.value = question;
+            this.renderMessages();
+            if (!isCancelled(error)) {
+                console.error("Chat request failed:", error);
+                new Notice(`Chat request failed: ${describeError(error)}`, 10000);
+            }
+        } finally {
+            this.plugin.jobs.finish(job);
+            this.setBusy(false);
+        }
+    }
+
+    private setBusy(busy: boolean) {
+        this.busy = busy;
+        if (this.sendBtn) {
+            this.sendBtn.disabled = busy;
+            this.sendBtn.setText(busy ? '...' : 'Send');
+        }
+    }
+
+    private async saveAsNote(content: string) {
+        const noteFile = this.getNoteFile();
+        if (!noteFile) {
+            new Notice("Open the note the reply belongs to first.");
+            return;
+        }
+        const firstLine = content.split('\n').find(line => line.trim().length > 0) || "";
+        const title = await promptForText(this.app, "Title of the new note", firstLine.replace(/^#+\s*/, '').slice(0, 60));
+        if (title === null || title.trim() === "") return;
+        await this.plugin.saveTextAsNote(title.trim(), content, noteFile, this.backgroundFiles.map(file => file.path));
+    }
+
+    private async exportConversation() {
+        if (this.messages.length === 0) {
+            new Notice("Nothing to export yet.");
+            return;
+        }
+        const noteFile = this.getNoteFile();
+        if (!noteFile) {
+            new Notice("Open the note the conversation belongs to first.");
+            return;
+        }
+        const transcript = this.messages
+            .map(message => `## ${message.role === 'user' ? 'You' : 'Gemini'}\n\n${message.content}\n`)
+            .join('\n');
+        const title = `Chat ${noteFile.basename} ${(moment as any)().format('YYYY-MM-DD HHmm')}`;
+        await this.plugin.saveTextAsNote(title, transcript, noteFile, this.backgroundFiles.map(file => file.path));
+    }
+}
+
+function buildChatPrompt(metaPrompt: string, noteTitle: string, noteContent: string, backgroundContext: string, messages: ChatMessage[]): string {
+    let prompt = metaPrompt;
+    if (noteContent) {
+        prompt += `\n\n---\nACTIVE NOTE "${noteTitle}":\n${noteContent}`;
+    }
+    if (backgroundContext.trim()) {
+        prompt += `\n\n---\nBACKGROUND REFERENCES:\n${backgroundContext}`;
+    }
+    const conversation = messages
+        .map(message => `${message.role === 'user' ? 'USER' : 'ASSISTANT'}: ${message.content}`)
+        .join('\n\n');
+    return `${prompt}\n\n---\nCONVERSATION:\n${conversation}\n\nASSISTANT:`;
+}
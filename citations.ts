@@ -0,0 +1,94 @@
+import { CitationMode } from "./types";
+
+/**
+ * Citation marker the model is asked to write, e.g. "[cite: Sources/Paper.md]".
+ * Several sources in one marker are separated by semicolons.
+ */
+const CITATION_REGEX = /\[cite:\s*([^\]\n]+)\]/gi;
+
+const FOOTNOTE_LABEL_REGEX = /\[\^ref-(\d+)\]/g;
+
+export const CITATION_PROMPT = `CITATIONS: After each statement that draws on a reference file, cite that file by the exact path shown in its "REFERENCE FILE" header, in the form [cite: path/to/file.md]. Separate several paths in one citation with semicolons. Cite only the reference files provided, and do not cite the selection or the note itself.`;
+
+export interface CitationResult {
+    content: string;
+    cited: string[]; // Provided files cited at least once
+    unknown: string[]; // Cited paths that match none of the provided files
+}
+
+function stripExtension(path: string): string {
+    return path.replace(/\.md$/i, '');
+}
+
+/**
+ * Finds the provided file a cited path refers to. Models tend to drop the
+ * extension or the folders, so those are accepted when unambiguous.
+ */
+function matchReference(cited: string, providedPaths: string[]): string | null {
+    const target = stripExtension(cited.replace(/^\[\[|\]\]$/g, '').trim()).toLowerCase();
+    const exact = providedPaths.find(path => stripExtension(path).toLowerCase() === target);
+    if (exact) return exact;
+    const byName = providedPaths.filter(path => {
+        const name = stripExtension(path.split('/').pop() || path).toLowerCase();
+        return name === target || name === target.split('/').pop();
+    });
+    return byName.length === 1 ? byName[0] : null;
+}
+
+function flagUnknown(path: string): string {
+    return `⚠️ unknown source "${path}"`;
+}
+
+/**
+ * Replaces the citation markers in generated text with links to the cited
+ * reference files, either inline as "([[path]])" or as footnotes listed at
+ * the end. Citations of files that were not provided are kept visibly
+ * flagged instead of linked.
+ * @param existingText Text the result is inserted into; footnote labels continue after the ones it already uses
+ */
+export function applyCitations(content: string, providedPaths: string[], mode: Exclude<CitationMode, 'off'>, existingText = ""): CitationResult {
+    const cited: string[] = [];
+    const unknown: string[] = [];
+    const footnotes: string[] = [];
+
+    let firstLabel = 1;
+    let labelMatch: RegExpExecArray | null;
+    FOOTNOTE_LABEL_REGEX.lastIndex = 0;
+    while ((labelMatch = FOOTNOTE_LABEL_REGEX.exec(existingText)) !== null) {
+        firstLabel = Math.max(firstLabel, parseInt(labelMatch[1], 10) + 1);
+    }
+
+    const replaced = content.replace(CITATION_REGEX, (marker: string, list: string) => {
+        const links: string[] = [];
+        const flags: string[] = [];
+        list.split(';').map(part => part.trim()).filter(part => part.length > 0).forEach(part => {
+            const path = matchReference(part, providedPaths);
+            if (!path) {
+                if (!unknown.includes(part)) unknown.push(part);
+                flags.push(flagUnknown(part));
+                return;
+            }
+            if (!cited.includes(path)) cited.push(path);
+            if (mode === 'footnotes') {
+                let index = footnotes.indexOf(path);
+                if (index === -1) index = footnotes.push(path) - 1;
+                links.push(`[^ref-${firstLabel + index}]`);
+            } else {
+                links.push(`[[${stripExtension(path)}]]`);
+            }
+        });
+
+        if (links.length === 0 && flags.length === 0) return '';
+        if (mode === 'footnotes') {
+            return links.join('') + (flags.length > 0 ? ` (${flags.join(', ')})` : '');
+        }
+        return `(${links.concat(flags).join(', ')})`;
+    });
+
+    const definitions = footnotes.map((path, index) => `[^ref-${firstLabel + index}]: [[${stripExtension(path)}]]`);
+    return {
+        content: definitions.length > 0 ? `${replaced.replace(/\s+$/, '')}\n\n${definitions.join('\n')}` : replaced,
+        cited,
+        unknown
+    };
+}
@@ -0,0 +1,72 @@
+import { App, TFile } from "obsidian";
+import { ContextType } from "./types";
+
+/**
+ * Returns the heading section that contains `offset`: from the nearest
+ * heading above it up to the next heading of the same or a higher level.
+ * Without a heading above, the section starts at the top of the note.
+ */
+export function getEnclosingSection(content: string, offset: number): string {
+    const headingRegex = /^(#{1,6})\s.*$/gm;
+    let start = 0;
+    let level = 0;
+    let end = content.length;
+    let match: RegExpExecArray | null;
+
+    while ((match = headingRegex.exec(content)) !== null) {
+        const matchLevel = match[1].length;
+        if (match.index <= offset) {
+            start = match.index;
+            level = matchLevel;
+        } else if (level === 0 || matchLevel <= level) {
+            end = match.index;
+            break;
+        }
+    }
+    return content.slice(start, end).trim();
+}
+
+// Most scope notes sent with one request, so a large folder or hub note
+// cannot flood the prompt when no token budget is set
+const MAX_SCOPE_NOTES = 20;
+
+/**
+ * Notes whose content is sent for the given scope, besides the parent note
+ * itself: its direct links (both directions) or the other notes in its folder.
+ * At most MAX_SCOPE_NOTES are returned: outgoing links before backlinks, or
+ * the most recently modified notes of the folder.
+ */
+export function getScopeNoteFiles(app: App, contextType: ContextType, parentFile: TFile): TFile[] {
+    if (contextType === 'selection_and_linked_notes') {
+        const resolvedLinks = app.metadataCache.resolvedLinks;
+        const paths = Object.keys(resolvedLinks[parentFile.path] || {});
+        Object.keys(resolvedLinks).forEach(source => {
+            if (resolvedLinks[source][parentFile.path] && !paths.includes(source)) paths.push(source);
+        });
+        return paths
+            .map(path => app.vault.getAbstractFileByPath(path))
+            .filter((file): file is TFile => file instanceof TFile && file.extension === 'md' && file.path !== parentFile.path)
+            .slice(0, MAX_SCOPE_NOTES);
+    }
+
+    if (contextType === 'selection_and_folder') {
+        const folder = parentFile.parent;
+        if (!folder) return [];
+        return folder.children
+            .filter((file): file is TFile => file instanceof TFile && file.extension === 'md' && file.path !== parentFile.path)
+            .sort((a, b) => b.stat.mtime - a.stat.mtime)
+            .slice(0, MAX_SCOPE_NOTES)
+            .sort((a, b) => a.path.localeCompare(b.path));
+    }
+
+    return [];
+}
+
+/**
+ * Whether the scope sends the full parent note (as opposed to a part of it).
+ */
+export function includesFullNote(contextType: ContextType): boolean {
+    return contextType === 'selection_and_full_note'
+        || contextType === 'selection_and_linked_notes'
+        || contextType === 'selection_and_folder';
+}
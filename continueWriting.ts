@@ -0,0 +1,194 @@
+import { Editor, Notice, TFile } from "obsidian";
+import { Extension, Prec, StateEffect, StateField } from "@codemirror/state";
+import { Decoration, EditorView, WidgetType, keymap } from "@codemirror/view";
+import type GeminiNotePlugin from "./main";
+import { createProvider, getProviderConfigError } from "./providers";
+import { describeError, isCancelled } from "./errors";
+
+// Text around the cursor sent as context
+const CHARS_BEFORE = 4000;
+const CHARS_AFTER = 1000;
+
+interface GhostText {
+    id: number; // Identifies the suggestion request that owns the ghost text
+    pos: number;
+    text: string;
+}
+
+const setGhostText = StateEffect.define<GhostText | null>();
+
+/**
+ * The pending suggestion of an editor. Any edit or cursor movement
+ * dismisses it.
+ */
+const ghostTextField = StateField.define<GhostText | null>({
+    create: () => null,
+    update(value, tr) {
+        for (const effect of tr.effects) {
+            if (effect.is(setGhostText)) return effect.value;
+        }
+        return value && (tr.docChanged || tr.selection) ? null : value;
+    },
+    provide: field => EditorView.decorations.from(field, ghost => ghost && ghost.text
+        ? Decoration.set([Decoration.widget({ widget: new GhostTextWidget(ghost.text), side: 1 }).range(ghost.pos)])
+        : Decoration.none)
+});
+
+class GhostTextWidget extends WidgetType {
+    private text: string;
+
+    constructor(text: string) {
+        super();
+        this.text = text;
+    }
+
+    eq(other: GhostTextWidget): boolean {
+        return other.text === this.text;
+    }
+
+    toDOM(): HTMLElement {
+        const span = document.createElement('span');
+        span.textContent = this.text;
+        span.style.color = 'var(--text-faint)';
+        span.style.whiteSpace = 'pre-wrap';
+        span.style.pointerEvents = 'none';
+        return span;
+    }
+}
+
+function acceptGhostText(view: EditorView): boolean {
+    const ghost = view.state.field(ghostTextField, false);
+    if (!ghost || !ghost.text) return false;
+    view.dispatch({
+        changes: { from: ghost.pos, insert: ghost.text },
+        selection: { anchor: ghost.pos + ghost.text.length },
+        effects: setGhostText.of(null)
+    });
+    return true;
+}
+
+function dismissGhostText(view: EditorView): boolean {
+    if (!view.state.field(ghostTextField, false)) return false;
+    view.dispatch({ effects: setGhostText.of(null) });
+    return true;
+}
+
+/**
+ * Editor extension that shows suggestions as ghost text at the cursor:
+ * Tab accepts, Escape dismisses. Register it with `registerEditorExtension`.
+ */
+export function ghostTextExtension(): Extension {
+    return [
+        ghostTextField,
+        Prec.highest(keymap.of([
+            { key: 'Tab', run: acceptGhostText },
+            { key: 'Escape', run: dismissGhostText }
+        ]))
+    ];
+}
+
+/**
+ * Continues the text at the cursor, either written straight into the note
+ * or offered as ghost text. Both run as cancellable jobs.
+ */
+export class ContinueWriter {
+    private plugin: GeminiNotePlugin;
+    private nextGhostId = 1;
+
+    constructor(plugin: GeminiNotePlugin) {
+        this.plugin = plugin;
+    }
+
+    /**
+     * Streams a continuation into the note at the cursor. A cancelled run
+     * removes what it wrote.
+     */
+    async insert(editor: Editor, file: TFile) {
+        const settings = this.plugin.settings;
+        const configError = getProviderConfigError(settings);
+        if (configError) {
+            new Notice(configError);
+            return;
+        }
+
+        const offset = editor.posToOffset(editor.getCursor());
+        const prompt = this.buildPrompt(editor, file, offset);
+        const anchorId = this.plugin.anchors.create(file.path, offset, offset);
+        const job = this.plugin.jobs.start(`Continue writing (${file.basename})`);
+        const signal = job.controller.signal;
+        let writes: Promise<unknown> = Promise.resolve();
+
+        try {
+            await createProvider(settings).stream(prompt, chunk => {
+                if (signal.aborted) return;
+                writes = writes.then(() => signal.aborted ? false : this.plugin.anchors.append(anchorId, chunk));
+            }, { signal });
+            await writes;
+        } catch (error) {
+            await writes;
+            if (isCancelled(error)) {
+                await this.plugin.anchors.replace(anchorId, "");
+                new Notice("Continue writing cancelled.");
+            } else {
+                console.error("Continue writing failed:", error);
+                new Notice(`Continue writing failed: ${describeError(error)}`, 10000);
+            }
+        } finally {
+            this.plugin.jobs.finish(job);
+            this.plugin.anchors.remove(anchorId);
+        }
+    }
+
+    /**
+     * Streams a continuation as ghost text at the cursor. Typing, moving the
+     * cursor or pressing Escape dismisses it and cancels the request.
+     */
+    async suggest(editor: Editor, file: TFile) {
+        const view: EditorView | undefined = (editor as any).cm;
+        if (!view || view.state.field(ghostTextField, false) === undefined) return;
+
+        const settings = this.plugin.settings;
+        const configError = getProviderConfigError(settings);
+        if (configError) {
+            new Notice(configError);
+            return;
+        }
+
+        const offset = editor.posToOffset(editor.getCursor());
+        const prompt = this.buildPrompt(editor, file, offset);
+        const ghost: GhostText = { id: this.nextGhostId++, pos: offset, text: "" };
+        view.dispatch({ effects: setGhostText.of(ghost) });
+        const isShown = () => view.state.field(ghostTextField, false)?.id === ghost.id;
+
+        const job = this.plugin.jobs.start("Suggestion");
+        try {
+            await createProvider(settings).stream(prompt, chunk => {
+                if (!isShown()) {
+                    this.plugin.jobs.cancel(job);
+                    return;
+                }
+                ghost.text += chunk;
+                view.dispatch({ effects: setGhostText.of({ id: ghost.id, pos: ghost.pos, text: ghost.text }) });
+            }, { signal: job.controller.signal });
+        } catch (error) {
+            if (isShown()) view.dispatch({ effects: setGhostText.of(null) });
+            if (!isCancelled(error)) {
+                console.error("Suggestion failed:", error);
+                new Notice(`Suggestion failed: ${describeError(error)}`, 10000);
+            }
+        } finally {
+            this.plugin.jobs.finish(job);
+        }
+    }
+
+    private buildPrompt(editor: Editor, file: TFile, offset: number): string {
+        const content = editor.getValue();
+        const before = content.slice(Math.max(0, offset - CHARS_BEFORE), offset);
+        const after = content.slice(offset, offset + CHARS_AFTER);
+        let prompt = `${this.plugin.settings.continueMetaPrompt}\n\n---\nNOTE TITLE: ${file.basename}\n\n---\nTEXT BEFORE THE CURSOR:\n${before}`;
+        if (after.trim()) {
+            prompt += `\n\n---\nTEXT AFTER THE CURSOR:\n${after}`;
+        }
+        return `${prompt}\n\n---\nCONTINUATION:`;
+    }
+}
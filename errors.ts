@@ -0,0 +1,146 @@
+/**
+ * What went wrong with a provider request, as far as the user is concerned.
+ */
+export type ProviderErrorKind =
+    | 'invalid_key'
+    | 'quota'
+    | 'safety'
+    | 'timeout'
+    | 'network'
+    | 'bad_model'
+    | 'server'
+    | 'cancelled'
+    | 'unknown';
+
+const ERROR_TITLES: Record<ProviderErrorKind, string> = {
+    invalid_key: 'The API key was rejected',
+    quota: 'Rate limit or quota exceeded',
+    safety: 'The response was blocked by safety filters',
+    timeout: 'The request timed out',
+    network: 'Could not reach the API',
+    bad_model: 'The model was not found',
+    server: 'The API server returned an error',
+    cancelled: 'The request was cancelled',
+    unknown: 'The request failed'
+};
+
+const ERROR_HINTS: Record<ProviderErrorKind, string> = {
+    invalid_key: 'Check the API key in the plugin settings.',
+    quota: 'Wait a minute and try again, lower the batch parallelism, or check your plan\'s quota.',
+    safety: 'Rephrase the instruction or the selection.',
+    timeout: 'Try again, or raise the request timeout in the settings.',
+    network: 'Check your connection and the API host in the settings.',
+    bad_model: 'Check the model name in the settings or the instruction frontmatter.',
+    server: 'Try again in a moment.',
+    cancelled: 'Nothing was written.',
+    unknown: 'Check the console for details.'
+};
+
+// Kinds that may succeed when the same request is sent again
+const RETRYABLE_KINDS: ProviderErrorKind[] = ['quota', 'timeout', 'network', 'server'];
+
+export class ProviderError extends Error {
+    readonly kind: ProviderErrorKind;
+    readonly status?: number;
+
+    constructor(kind: ProviderErrorKind, message: string, status?: number) {
+        super(message);
+        this.name = 'ProviderError';
+        this.kind = kind;
+        this.status = status;
+    }
+
+    get retryable(): boolean {
+        return RETRYABLE_KINDS.includes(this.kind);
+    }
+
+    /**
+     * Short user-facing summary with a suggested fix.
+     */
+    describe(): string {
+        return `${ERROR_TITLES[this.kind]}. ${ERROR_HINTS[this.kind]}`;
+    }
+}
+
+/**
+ * Classifies an HTTP error response from either API.
+ */
+export function classifyHttpError(status: number, body: string): ProviderError {
+    const text = body.toLowerCase();
+    const message = `HTTP Error ${status}: ${body}`;
+
+    if (status === 429 || text.includes('resource_exhausted') || text.includes('quota')) {
+        return new ProviderError('quota', message, status);
+    }
+    if (status === 401 || text.includes('api key not valid') || text.includes('api_key_invalid') || text.includes('invalid api key')) {
+        return new ProviderError('invalid_key', message, status);
+    }
+    if (status === 404 || (text.includes('model') && (text.includes('not found') || text.includes('does not exist')))) {
+        return new ProviderError('bad_model', message, status);
+    }
+    if (status === 403) {
+        return new ProviderError('invalid_key', message, status);
+    }
+    if (status === 408 || status === 504) {
+        return new ProviderError('timeout', message, status);
+    }
+    if (status >= 500) {
+        return new ProviderError('server', message, status);
+    }
+    return new ProviderError('unknown', message, status);
+}
+
+/**
+ * Turns anything thrown during a request (SDK errors, fetch failures, plain
+ * errors) into a ProviderError. ProviderErrors pass through unchanged.
+ */
+export function toProviderError(error: any): ProviderError {
+    if (error instanceof ProviderError) return error;
+    // fetch and the SDK reject with an AbortError when their signal fires
+    if (error?.name === 'AbortError') return cancelledError();
+
+    const message = error?.message || String(error);
+    // @google/genai ApiError carries the HTTP status
+    if (typeof error?.status === 'number') {
+        return classifyHttpError(error.status, message);
+    }
+    // fetch rejects with a TypeError when the host cannot be reached
+    if (error instanceof TypeError || /failed to fetch|network|ECONNREFUSED|ENOTFOUND|ETIMEDOUT|net::/i.test(message)) {
+        return new ProviderError('network', message);
+    }
+    return new ProviderError('unknown', message);
+}
+
+export function cancelledError(): ProviderError {
+    return new ProviderError('cancelled', "Request cancelled");
+}
+
+export function isCancelled(error: any): boolean {
+    return error instanceof ProviderError && error.kind === 'cancelled';
+}
+
+/**
+ * Settles like `promise`, or rejects with a cancelled error as soon as
+ * `signal` fires. For requests that cannot be aborted themselves
+ * (`requestUrl`): the response is still received, but ignored.
+ */
+export function abortable<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+    if (!signal) return promise;
+    if (signal.aborted) return Promise.reject(cancelledError());
+    return new Promise<T>((resolve, reject) => {
+        const onAbort = () => reject(cancelledError());
+        signal.addEventListener('abort', onAbort);
+        promise.then(
+            value => { signal.removeEventListener('abort', onAbort); resolve(value); },
+            error => { signal.removeEventListener('abort', onAbort); reject(error); }
+        );
+    });
+}
+
+/**
+ * User-facing text for any error: the classified summary for provider
+ * errors, the message otherwise.
+ */
+export function describeError(error: any): string {
+    return error instanceof ProviderError ? error.describe() : (error?.message || String(error));
+}
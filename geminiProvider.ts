@@ -0,0 +1,349 @@
+import { GoogleGenAI } from "@google/genai";
+import { requestUrl } from "obsidian";
+import { LLMProvider, ModelInfo, ProviderGenerateOptions } from "./types";
+import { fetchForStream, readSseStream } from "./sse";
+import { abortable, classifyHttpError, ProviderError, toProviderError } from "./errors";
+import { normalizeHostUrl } from "./hostUrl";
+
+// finishReason / blockReason values that mean the output was withheld
+const BLOCK_REASONS = ['SAFETY', 'RECITATION', 'BLOCKLIST', 'PROHIBITED_CONTENT', 'SPII', 'IMAGE_SAFETY'];
+
+export interface GeminiConnectionOptions {
+    apiVersion: string; // Path segment of the API version, e.g. "v1beta"
+    keyInQuery: boolean; // Send the key as ?key= instead of the x-goog-api-key header
+    headers: Record<string, string>; // Extra headers sent with every custom-host request
+}
+
+const DEFAULT_CONNECTION: GeminiConnectionOptions = { apiVersion: 'v1beta', keyInQuery: false, headers: {} };
+
+/**
+ * Google Gemini, either through the @google/genai SDK or, when a host is set,
+ * through the REST API of a proxy.
+ */
+export class GeminiProvider implements LLMProvider {
+    readonly id = 'gemini';
+    private apiKey: string;
+    private apiHost: string;
+    private connection: GeminiConnectionOptions;
+    readonly modelName: string;
+
+    constructor(apiKey: string, apiHost: string, modelName: string, connection: GeminiConnectionOptions = DEFAULT_CONNECTION) {
+        this.apiKey = apiKey;
+        this.apiHost = apiHost;
+        this.modelName = modelName;
+        this.connection = connection;
+    }
+
+    async generate(prompt: string, options: ProviderGenerateOptions = {}): Promise<string> {
+        this.assertApiKey();
+        return this.useCustomHost()
+            ? this.generateWithCustomHost(prompt, options)
+            : this.generateWithSdk(prompt, options);
+    }
+
+    async stream(prompt: string, onChunk: (chunk: string) => void, options: ProviderGenerateOptions = {}): Promise<string> {
+        this.assertApiKey();
+        return this.useCustomHost()
+            ? this.streamWithCustomHost(prompt, onChunk, options)
+            : this.streamWithSdk(prompt, onChunk, options);
+    }
+
+    async countTokens(text: string): Promise<number> {
+        this.assertApiKey();
+        if (!this.useCustomHost()) {
+            const ai = this.createClient();
+            const response = await ai.models.countTokens({ model: this.modelName, contents: text });
+            return response.totalTokens || 0;
+        }
+
+        const response = await requestUrl({
+            url: this.buildUrl(`models/${this.modelName}:countTokens`),
+            method: 'POST',
+            headers: this.buildHeaders(),
+            body: JSON.stringify({ contents: [{ parts: [{ text }] }] }),
+            throw: false
+        });
+        if (response.status >= 400) {
+            throw classifyHttpError(response.status, response.text);
+        }
+        return response.json.totalTokens || 0;
+    }
+
+    /**
+     * Lists the models that support text generation, from the models endpoint.
+     */
+    async listModels(): Promise<ModelInfo[]> {
+        this.assertApiKey();
+        const models: ModelInfo[] = [];
+        try {
+            if (!this.useCustomHost()) {
+                const ai = this.createClient();
+                const pager = await ai.models.list();
+                for await (const model of pager) {
+                    if (model.supportedActions && !model.supportedActions.includes('generateContent')) continue;
+                    models.push(toModelInfo(model));
+                }
+                return models;
+            }
+
+            let pageToken = "";
+            do {
+                const url = this.buildUrl('models', pageToken ? { pageSize: '1000', pageToken } : { pageSize: '1000' });
+                const response = await requestUrl({ url, method: 'GET', headers: this.buildHeaders(), throw: false });
+                if (response.status >= 400) {
+                    throw classifyHttpError(response.status, response.text);
+                }
+                (response.json.models || []).forEach((model: any) => {
+                    if (model.supportedGenerationMethods && !model.supportedGenerationMethods.includes('generateContent')) return;
+                    models.push(toModelInfo(model));
+                });
+                pageToken = response.json.nextPageToken || "";
+            } while (pageToken);
+            return models;
+        } catch (error) {
+            console.error("Gemini model list error:", error);
+            throw toProviderError(error);
+        }
+    }
+
+    private assertApiKey() {
+        if (!this.apiKey) {
+            throw new ProviderError('invalid_key', "API Key not set");
+        }
+    }
+
+    private useCustomHost(): boolean {
+        return !!this.apiHost && this.apiHost.trim() !== '';
+    }
+
+    private async generateWithSdk(prompt: string, options: ProviderGenerateOptions): Promise<string> {
+        const ai = this.createClient();
+        try {
+            const response = await ai.models.generateContent({
+                model: this.modelName,
+                contents: this.buildContents(prompt, options),
+                config: this.buildSdkConfig(options)
+            });
+            const text = response.text || "";
+            if (!text) throw emptyResponseError(response);
+            return text;
+        } catch (error) {
+            console.error("Gemini SDK Error:", error);
+            throw toProviderError(error);
+        }
+    }
+
+    private async streamWithSdk(prompt: string, onChunk: (chunk: string) => void, options: ProviderGenerateOptions): Promise<string> {
+        const ai = this.createClient();
+        try {
+            const stream = await ai.models.generateContentStream({
+                model: this.modelName,
+                contents: this.buildContents(prompt, options),
+                config: this.buildSdkConfig(options)
+            });
+            let fullText = "";
+            let lastChunk: any = null;
+            for await (const chunk of stream) {
+                lastChunk = chunk;
+                const text = chunk.text || "";
+                if (text) {
+                    fullText += text;
+                    onChunk(text);
+                }
+            }
+            if (!fullText) throw emptyResponseError(lastChunk);
+            return fullText;
+        } catch (error) {
+            console.error("Gemini SDK Stream Error:", error);
+            throw toProviderError(error);
+        }
+    }
+
+    /**
+     * The prompt as a single user turn: the text part first, then one inline
+     * data part per attachment. Shared by the SDK and the REST body.
+     */
+    private buildContents(prompt: string, options: ProviderGenerateOptions): any[] {
+        const parts: any[] = [{ text: prompt }];
+        (options.attachments || []).forEach(attachment => {
+            parts.push({ inlineData: { mimeType: attachment.mimeType, data: attachment.data } });
+        });
+        return [{ role: 'user', parts }];
+    }
+
+    private buildSdkConfig(options: ProviderGenerateOptions): any {
+        const config: any = {};
+        if (options.temperature !== undefined) {
+            config.temperature = options.temperature;
+        }
+        if (options.maxOutputTokens !== undefined) {
+            config.maxOutputTokens = options.maxOutputTokens;
+        }
+        if (options.jsonSchema) {
+            config.responseMimeType = 'application/json';
+            config.responseSchema = options.jsonSchema;
+        }
+        if (options.signal) {
+            config.abortSignal = options.signal;
+        }
+        return Object.keys(config).length > 0 ? config : undefined;
+    }
+
+    /**
+     * SDK client for Google's own endpoint. Custom headers are meant for a
+     * proxy or gateway and are only sent on the custom-host path, so tokens in
+     * them never reach Google.
+     */
+    private createClient(): GoogleGenAI {
+        return new GoogleGenAI({
+            apiKey: this.apiKey,
+            apiVersion: this.connection.apiVersion
+        });
+    }
+
+    /**
+     * REST URL of a custom-host endpoint such as `models/gemini-2.5-flash:generateContent`.
+     * The key is only added to the query string when configured so.
+     */
+    private buildUrl(path: string, query: Record<string, string> = {}): string {
+        const params = Object.keys(query).map(key => `${key}=${encodeURIComponent(query[key])}`);
+        if (this.connection.keyInQuery) {
+            params.push(`key=${encodeURIComponent(this.apiKey)}`);
+        }
+        const base = `${normalizeHostUrl(this.apiHost)}/${this.connection.apiVersion}/${path}`;
+        return params.length > 0 ? `${base}?${params.join('&')}` : base;
+    }
+
+    /**
+     * Headers of a custom-host request. The key goes into `x-goog-api-key`
+     * so it stays out of proxy access logs.
+     */
+    private buildHeaders(): Record<string, string> {
+        const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+        if (!this.connection.keyInQuery) {
+            headers['x-goog-api-key'] = this.apiKey;
+        }
+        return Object.assign(headers, this.connection.headers);
+    }
+
+    private buildRestBody(prompt: string, options: ProviderGenerateOptions): any {
+        const body: any = {
+            contents: this.buildContents(prompt, options)
+        };
+        const generationConfig: any = {};
+        if (options.temperature !== undefined) {
+            generationConfig.temperature = options.temperature;
+        }
+        if (options.maxOutputTokens !== undefined) {
+            generationConfig.maxOutputTokens = options.maxOutputTokens;
+        }
+        if (options.jsonSchema) {
+            generationConfig.responseMimeType = 'application/json';
+            generationConfig.responseSchema = options.jsonSchema;
+        }
+        if (Object.keys(generationConfig).length > 0) {
+            body.generationConfig = generationConfig;
+        }
+        return body;
+    }
+
+    private async generateWithCustomHost(prompt: string, options: ProviderGenerateOptions): Promise<string> {
+        const url = this.buildUrl(`models/${this.modelName}:generateContent`);
+        const body = this.buildRestBody(prompt, options);
+
+        try {
+            // Use Obsidian's requestUrl to bypass CORS. It cannot be aborted,
+            // so a cancelled request stops waiting for it instead.
+            const response = await abortable(requestUrl({
+                url: url,
+                method: 'POST',
+                headers: this.buildHeaders(),
+                body: JSON.stringify(body),
+                throw: false
+            }), options.signal);
+
+            if (response.status >= 400) {
+                throw classifyHttpError(response.status, response.text);
+            }
+
+            const data = response.json;
+            const text = data.candidates?.[0]?.content?.parts?.[0]?.text;
+
+            if (!text) throw emptyResponseError(data);
+            return text;
+
+        } catch (error) {
+            console.error("Custom Host API Error:", error);
+            throw toProviderError(error);
+        }
+    }
+
+    private async streamWithCustomHost(prompt: string, onChunk: (chunk: string) => void, options: ProviderGenerateOptions): Promise<string> {
+        const url = this.buildUrl(`models/${this.modelName}:streamGenerateContent`, { alt: 'sse' });
+        const body = this.buildRestBody(prompt, options);
+
+        try {
+            // requestUrl buffers the whole body, so streaming has to go through fetch
+            const response = await fetchForStream(url, {
+                method: 'POST',
+                headers: this.buildHeaders(),
+                body: JSON.stringify(body),
+                signal: options.signal
+            });
+            if (!response) {
+                const text = await this.generateWithCustomHost(prompt, options);
+                onChunk(text);
+                return text;
+            }
+
+            if (!response.ok) {
+                throw classifyHttpError(response.status, await response.text());
+            }
+
+            let fullText = "";
+            let lastChunk: any = null;
+            await readSseStream(response, (data) => {
+                const parsed = JSON.parse(data);
+                lastChunk = parsed;
+                const parts: any[] = parsed.candidates?.[0]?.content?.parts || [];
+                const text = parts.map(part => part.text || "").join("");
+                if (text) {
+                    fullText += text;
+                    onChunk(text);
+                }
+            });
+
+            if (!fullText) throw emptyResponseError(lastChunk);
+            return fullText;
+
+        } catch (error) {
+            console.error("Custom Host API Stream Error:", error);
+            throw toProviderError(error);
+        }
+    }
+}
+
+/**
+ * Model entry of the SDK or the REST API, with the "models/" prefix dropped
+ * from the name.
+ */
+function toModelInfo(model: any): ModelInfo {
+    return {
+        name: String(model.name || "").replace(/^models\//, ''),
+        displayName: model.displayName,
+        inputTokenLimit: model.inputTokenLimit,
+        outputTokenLimit: model.outputTokenLimit
+    };
+}
+
+/**
+ * Error for a response without text: a safety block when the prompt
+ * feedback or the finish reason says so.
+ */
+function emptyResponseError(data: any): ProviderError {
+    const reason = data?.promptFeedback?.blockReason || data?.candidates?.[0]?.finishReason;
+    if (reason && BLOCK_REASONS.includes(reason)) {
+        return new ProviderError('safety', `Response blocked (${reason})`);
+    }
+    return new ProviderError('unknown', reason ? `Empty response from API (finish reason: ${reason})` : "Empty response from API");
+}
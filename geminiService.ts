@@ -1,45 +1,103 @@
-import { GoogleGenAI } from "@google/genai";
-import { requestUrl } from "obsidian";
-import { GenerationRequest, GenerationResponse, OutputAction } from "./types";
+import { GenerationRequest, GenerationResponse, LLMProvider, ProviderGenerateOptions } from "./types";
+import { includesFullNote } from "./contextScopes";
+import { CITATION_PROMPT } from "./citations";
+
+/**
+ * Schema of the create-note JSON contract (GenerationResponse), in the
+ * OpenAPI subset Gemini accepts as `responseSchema`.
+ */
+export const CREATE_NOTE_RESPONSE_SCHEMA = {
+    type: 'OBJECT',
+    properties: {
+        title: { type: 'STRING', description: 'A concise, safe filename.' },
+        anchorLabel: { type: 'STRING', description: 'A short (2-5 words) summary phrase for the link.' },
+        content: { type: 'STRING', description: 'Detailed Markdown body of the note.' },
+        tags: { type: 'ARRAY', items: { type: 'STRING' } },
+        aliases: { type: 'ARRAY', items: { type: 'STRING' } }
+    },
+    required: ['title', 'content'],
+    propertyOrdering: ['title', 'anchorLabel', 'content', 'tags', 'aliases']
+};
 
 export class GeminiService {
-    private apiKey: string;
-    private apiHost: string;
-    private modelName: string;
+    private provider: LLMProvider;
     private createNoteMetaPrompt: string;
     private inPlaceMetaPrompt: string;
+    private nativeJsonMode: boolean;
+    private jsonRepairRetries: number;
 
     constructor(
-        apiKey: string, 
-        apiHost: string, 
-        modelName: string, 
+        provider: LLMProvider,
         createNoteMetaPrompt: string,
-        inPlaceMetaPrompt: string
+        inPlaceMetaPrompt: string,
+        nativeJsonMode = true,
+        jsonRepairRetries = 0
     ) {
-        this.apiKey = apiKey;
-        this.apiHost = apiHost;
-        this.modelName = modelName;
+        this.provider = provider;
         this.createNoteMetaPrompt = createNoteMetaPrompt;
         this.inPlaceMetaPrompt = inPlaceMetaPrompt;
+        this.nativeJsonMode = nativeJsonMode;
+        this.jsonRepairRetries = jsonRepairRetries;
     }
 
-    async generateNote(request: GenerationRequest): Promise<GenerationResponse> {
-        if (!this.apiKey) {
-            throw new Error("API Key not set");
+    /**
+     * Generates a response for the request. When `onChunk` is provided and the
+     * output is plain text (in-place actions), the response is streamed and each
+     * text fragment is passed to `onChunk` as it arrives. The returned response
+     * always holds the full, cleaned-up content. Firing `signal` cancels the
+     * request; the promise then rejects with a 'cancelled' ProviderError.
+     */
+    async generateNote(request: GenerationRequest, onChunk?: (chunk: string) => void, signal?: AbortSignal): Promise<GenerationResponse> {
+        const isCreateNote = request.outputAction === 'create_note';
+        const fullPrompt = request.promptOverride ?? this.buildPrompt(request);
+
+        // LOGIC BRANCH: streamed or buffered, through whichever provider is configured
+        const options: ProviderGenerateOptions = {
+            temperature: request.temperature,
+            maxOutputTokens: request.maxOutputTokens,
+            attachments: request.attachments,
+            signal
+        };
+        if (isCreateNote) {
+            if (this.nativeJsonMode) {
+                options.jsonSchema = CREATE_NOTE_RESPONSE_SCHEMA;
+            }
+            return this.generateJsonNote(fullPrompt, options);
         }
 
+        const responseText = onChunk
+            ? await this.provider.stream(fullPrompt, onChunk, options)
+            : await this.provider.generate(fullPrompt, options);
+
+        return this.parseResponse(responseText, false);
+    }
+
+    /**
+     * The full prompt for a request: the meta prompt of its output action,
+     * followed by the JSON payload (create note) or the delimited context
+     * sections (in-place actions).
+     */
+    buildPrompt(request: GenerationRequest): string {
         let fullPrompt = "";
         const isCreateNote = request.outputAction === 'create_note';
         const hasBackground = request.backgroundContext && request.backgroundContext.trim().length > 0;
+        const hasScopeNotes = request.scopeNotesContext && request.scopeNotesContext.trim().length > 0;
+        const attachmentNames = (request.attachments || []).map(attachment => attachment.name);
+        // Background files and scope notes are both sent as citable REFERENCE FILEs
+        const cite = request.citeReferences && (hasBackground || hasScopeNotes);
 
         if (isCreateNote) {
             // Strategy: Structured JSON for new file
             const payload = {
                 userInstruction: request.instructionContent,
                 selectedText: request.selectedText,
-                parentNoteContent: request.contextType === 'selection_and_full_note' ? request.parentNoteContent : undefined,
+                parentNoteContent: includesFullNote(request.contextType) ? request.parentNoteContent : undefined,
+                parentNoteSection: request.contextType === 'selection_and_section' ? request.sectionContent : undefined,
                 parentNoteTitle: request.parentNoteTitle,
-                backgroundReferences: hasBackground ? request.backgroundContext : undefined
+                linkedNotes: request.contextType === 'selection_and_linked_notes' && hasScopeNotes ? request.scopeNotesContext : undefined,
+                folderNotes: request.contextType === 'selection_and_folder' && hasScopeNotes ? request.scopeNotesContext : undefined,
+                backgroundReferences: hasBackground ? request.backgroundContext : undefined,
+                attachedFiles: attachmentNames.length > 0 ? attachmentNames : undefined
             };
             
             // Inject instruction about references into the prompt string if they exist
@@ -47,6 +105,12 @@ export class GeminiService {
             if (hasBackground) {
                 promptIntro += "\n\nIMPORTANT: Use the provided 'backgroundReferences' as source material to enrich the content and ensure factual accuracy.";
             }
+            if (cite) {
+                promptIntro += `\n\n${CITATION_PROMPT} Put the citations inside 'content'.`;
+            }
+            if (attachmentNames.length > 0) {
+                promptIntro += "\n\nThe files listed in 'attachedFiles' are attached after this text, in that order. Embeds such as ![[file]] in the input refer to them.";
+            }
 
             fullPrompt = `${promptIntro}\n\nInput Data:\n${JSON.stringify(payload, null, 2)}`;
         } else {
@@ -59,6 +123,7 @@ BACKGROUND REFERENCE MATERIALS (Use for facts/context, but prioritize current do
 ${request.backgroundContext}
 `;
             }
+            const citationSection = cite ? `\n---\n${CITATION_PROMPT}\n` : "";
 
             fullPrompt = `${this.inPlaceMetaPrompt}
             
@@ -67,7 +132,7 @@ USER INSTRUCTION (Rule to follow):
 ${request.instructionContent}
 
 ${backgroundSection}
-
+${this.buildScopeSection(request)}${citationSection}${this.buildAttachmentSection(attachmentNames)}
 ---
 EXISTING TEXT BEFORE SELECTION (Context):
 ...${request.contextBefore}
@@ -82,68 +147,58 @@ ${request.selectedText}
 `;
         }
 
-        // LOGIC BRANCH: Custom Host vs Default SDK
-        let responseText = "";
-        if (this.apiHost && this.apiHost.trim() !== '') {
-            responseText = await this.generateWithCustomHost(fullPrompt);
-        } else {
-            responseText = await this.generateWithSdk(fullPrompt);
-        }
-
-        return this.parseResponse(responseText, isCreateNote);
+        return fullPrompt;
     }
 
-    private async generateWithSdk(prompt: string): Promise<string> {
-        const ai = new GoogleGenAI({ apiKey: this.apiKey });
-        try {
-            const response = await ai.models.generateContent({
-                model: this.modelName,
-                contents: prompt
-            });
-            return response.text || "";
-        } catch (error) {
-            console.error("Gemini SDK Error:", error);
-            throw new Error(`Gemini SDK Error: ${error.message || error}`);
+    /**
+     * Labelled note context of the in-place prompt for the request's scope.
+     */
+    private buildScopeSection(request: GenerationRequest): string {
+        const sections: string[] = [];
+        if (request.contextType === 'selection_and_section' && request.sectionContent) {
+            sections.push(`CURRENT SECTION OF THE NOTE (Context):\n${request.sectionContent}`);
         }
-    }
-
-    private async generateWithCustomHost(prompt: string): Promise<string> {
-        let host = this.apiHost.trim();
-        if (host.startsWith("https:/") && !host.startsWith("https://")) {
-            host = host.replace("https:/", "https://");
+        if (includesFullNote(request.contextType) && request.parentNoteContent) {
+            sections.push(`FULL PARENT NOTE "${request.parentNoteTitle}" (Context):\n${request.parentNoteContent}`);
         }
-        if (host.endsWith("/")) {
-            host = host.slice(0, -1);
+        if (request.scopeNotesContext && request.scopeNotesContext.trim().length > 0) {
+            const label = request.contextType === 'selection_and_folder'
+                ? 'OTHER NOTES IN THE SAME FOLDER'
+                : 'NOTES LINKED TO OR FROM THE PARENT NOTE';
+            sections.push(`${label} (Context):\n${request.scopeNotesContext}`);
         }
+        return sections.map(section => `\n---\n${section}\n`).join('');
+    }
 
-        const url = `${host}/v1beta/models/${this.modelName}:generateContent?key=${this.apiKey}`;
-        const body = {
-            contents: [{ parts: [{ text: prompt }] }]
-        };
+    private buildAttachmentSection(names: string[]): string {
+        if (names.length === 0) return "";
+        return `\n---\nATTACHED FILES (sent after this text, in this order; embeds such as ![[file]] refer to them):\n${names.join('\n')}\n`;
+    }
 
-        try {
-            // Use Obsidian's requestUrl to bypass CORS
-            const response = await requestUrl({
-                url: url,
-                method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify(body)
-            });
-
-            if (response.status >= 400) {
-                throw new Error(`HTTP Error ${response.status}: ${JSON.stringify(response.json)}`);
-            }
+    /**
+     * Requests a create-note JSON response. Responses that fail validation are
+     * sent back to the model for repair, up to `jsonRepairRetries` times, before
+     * falling back to an untitled note holding the raw text.
+     */
+    private async generateJsonNote(prompt: string, options: ProviderGenerateOptions): Promise<GenerationResponse> {
+        let responseText = await this.provider.generate(prompt, options);
+        let result = this.tryParseJson(responseText);
 
-            const data = response.json;
-            const text = data.candidates?.[0]?.content?.parts?.[0]?.text;
+        for (let attempt = 0; !result.response && attempt < this.jsonRepairRetries; attempt++) {
+            console.warn(`Invalid create-note JSON (${result.error}); repair attempt ${attempt + 1}/${this.jsonRepairRetries}`);
+            const repairPrompt = `${prompt}
 
-            if (!text) throw new Error("Empty response from API");
-            return text;
+---
+Your previous response was rejected: ${result.error}
+Previous response:
+${responseText}
 
-        } catch (error) {
-            console.error("Custom Host API Error:", error);
-            throw new Error(`API Request Failed: ${error.message || error}`);
+Return ONLY the corrected JSON object with the keys "title" and "content" (optionally "anchorLabel", "tags" and "aliases").`;
+            responseText = await this.provider.generate(repairPrompt, options);
+            result = this.tryParseJson(responseText);
         }
+
+        return result.response || this.parseResponse(responseText, true);
     }
 
     private parseResponse(rawResponse: string, expectJson: boolean): GenerationResponse {
@@ -155,10 +210,32 @@ ${request.selectedText}
             return {
                 title: "",
                 content: match ? match[1].trim() : textToParse,
-                isFallback: false
+                isFallback: false,
+                rawText: rawResponse
             };
         }
 
+        const result = this.tryParseJson(rawResponse);
+        if (result.response) {
+            return result.response;
+        }
+
+        return {
+            title: "Untitled Gemini Note",
+            content: rawResponse,
+            isFallback: true,
+            rawText: rawResponse
+        };
+    }
+
+    /**
+     * Parses and validates a create-note JSON response. Tolerates code fences
+     * and text around the JSON object.
+     */
+    private tryParseJson(rawResponse: string): { response: GenerationResponse | null; error: string } {
+        const textToParse = rawResponse.trim();
+        let error = "response is not valid JSON";
+
         let cleanJson = textToParse;
         const codeBlockRegex = /^```(?:json)?\s*([\s\S]*?)\s*```$/i;
         const match = textToParse.match(codeBlockRegex);
@@ -168,14 +245,11 @@ ${request.selectedText}
 
         try {
             const parsed = JSON.parse(cleanJson);
-            if (this.isValidResponse(parsed)) {
-                return { 
-                    title: parsed.title, 
-                    content: parsed.content, 
-                    anchorLabel: parsed.anchorLabel,
-                    isFallback: false 
-                };
+            const validationError = this.validateResponse(parsed);
+            if (!validationError) {
+                return { response: this.toResponse(parsed, rawResponse), error: "" };
             }
+            error = validationError;
         } catch (e) { }
 
         try {
@@ -184,27 +258,48 @@ ${request.selectedText}
             if (firstBrace !== -1 && lastBrace !== -1 && lastBrace > firstBrace) {
                 const jsonSubstring = rawResponse.substring(firstBrace, lastBrace + 1);
                 const parsed = JSON.parse(jsonSubstring);
-                if (this.isValidResponse(parsed)) {
-                    return { 
-                        title: parsed.title, 
-                        content: parsed.content, 
-                        anchorLabel: parsed.anchorLabel,
-                        isFallback: false 
-                    };
+                const validationError = this.validateResponse(parsed);
+                if (!validationError) {
+                    return { response: this.toResponse(parsed, rawResponse), error: "" };
                 }
+                error = validationError;
             }
         } catch (e) { }
 
+        return { response: null, error };
+    }
+
+    private toResponse(parsed: any, rawResponse: string): GenerationResponse {
         return {
-            title: "Untitled Gemini Note",
-            content: rawResponse,
-            isFallback: true
+            title: parsed.title,
+            content: parsed.content,
+            anchorLabel: parsed.anchorLabel,
+            tags: this.toStringList(parsed.tags),
+            aliases: this.toStringList(parsed.aliases),
+            isFallback: false,
+            rawText: rawResponse
         };
     }
 
-    private isValidResponse(obj: any): boolean {
-        return obj && 
-               typeof obj.title === 'string' && 
-               typeof obj.content === 'string';
+    private toStringList(value: any): string[] | undefined {
+        if (!Array.isArray(value)) return undefined;
+        const list = value.filter(item => typeof item === 'string' && item.trim() !== '').map(item => item.trim());
+        return list.length > 0 ? list : undefined;
+    }
+
+    /**
+     * Returns why an object does not match the create-note schema, or null if it does.
+     */
+    private validateResponse(obj: any): string | null {
+        if (!obj || typeof obj !== 'object' || Array.isArray(obj)) return "response is not a JSON object";
+        if (typeof obj.title !== 'string' || obj.title.trim() === '') return '"title" must be a non-empty string';
+        if (typeof obj.content !== 'string') return '"content" must be a string';
+        if (obj.anchorLabel !== undefined && typeof obj.anchorLabel !== 'string') return '"anchorLabel" must be a string';
+        for (const key of ['tags', 'aliases']) {
+            if (obj[key] !== undefined && (!Array.isArray(obj[key]) || obj[key].some((item: any) => typeof item !== 'string'))) {
+                return `"${key}" must be an array of strings`;
+            }
+        }
+        return null;
     }
 }
\ No newline at end of file
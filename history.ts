@@ -0,0 +1,119 @@
+import { App, TAbstractFile, normalizePath } from "obsidian";
+import { GenerationRequest, HistoryEntry, HistoryStatus } from "./types";
+
+/**
+ * Persists finished generations to `history.json` in the plugin folder.
+ */
+export class GenerationHistory {
+    private app: App;
+    private path: string;
+    private getLimit: () => number;
+    private entries: HistoryEntry[] = [];
+    private listeners: (() => void)[] = [];
+    private writes: Promise<void> = Promise.resolve();
+
+    constructor(app: App, pluginDir: string, getLimit: () => number) {
+        this.app = app;
+        this.path = normalizePath(`${pluginDir}/history.json`);
+        this.getLimit = getLimit;
+    }
+
+    async load() {
+        try {
+            if (await this.app.vault.adapter.exists(this.path)) {
+                const data = JSON.parse(await this.app.vault.adapter.read(this.path));
+                this.entries = Array.isArray(data) ? data : [];
+            }
+        } catch (e) {
+            console.error("Failed to load generation history:", e);
+            this.entries = [];
+        }
+    }
+
+    /**
+     * Returns all entries, newest first.
+     */
+    getEntries(): HistoryEntry[] {
+        return this.entries.slice().reverse();
+    }
+
+    getEntry(id: string): HistoryEntry | null {
+        return this.entries.find(entry => entry.id === id) || null;
+    }
+
+    /**
+     * Returns the newest entry that created the given note.
+     */
+    findByCreatedNote(path: string): HistoryEntry | null {
+        for (let i = this.entries.length - 1; i >= 0; i--) {
+            if (this.entries[i].createdNotePath === path) return this.entries[i];
+        }
+        return null;
+    }
+
+    async add(entry: HistoryEntry) {
+        this.entries.push(entry);
+        const limit = Math.max(1, this.getLimit());
+        if (this.entries.length > limit) {
+            this.entries.splice(0, this.entries.length - limit);
+        }
+        await this.persist();
+    }
+
+    /**
+     * Records the final outcome of an entry, e.g. once its review is decided.
+     */
+    async setStatus(id: string, status: HistoryStatus) {
+        const entry = this.getEntry(id);
+        if (!entry || entry.status === status) return;
+        entry.status = status;
+        await this.persist();
+    }
+
+    async clear() {
+        this.entries = [];
+        await this.persist();
+    }
+
+    /**
+     * Keeps source and created note paths valid after a rename.
+     */
+    async handleRename(file: TAbstractFile, oldPath: string) {
+        let changed = false;
+        this.entries.forEach(entry => {
+            if (entry.target.filePath === oldPath) {
+                entry.target.filePath = file.path;
+                changed = true;
+            }
+            if (entry.createdNotePath === oldPath) {
+                entry.createdNotePath = file.path;
+                changed = true;
+            }
+        });
+        if (changed) await this.persist();
+    }
+
+    onChange(listener: () => void): () => void {
+        this.listeners.push(listener);
+        return () => {
+            this.listeners = this.listeners.filter(l => l !== listener);
+        };
+    }
+
+    private persist(): Promise<void> {
+        this.listeners.forEach(listener => listener());
+        // Chain writes so concurrent generations cannot interleave them
+        this.writes = this.writes
+            .then(() => this.app.vault.adapter.write(this.path, JSON.stringify(this.entries, null, 2)))
+            .catch(e => console.error("Failed to save generation history:", e));
+        return this.writes;
+    }
+}
+
+/**
+ * Drops the large bodies from a request before it is logged.
+ */
+export function toHistoryRequest(request: GenerationRequest): HistoryEntry['request'] {
+    const { parentNoteContent, backgroundContext, sectionContent, scopeNotesContext, attachments, promptOverride, ...rest } = request;
+    return rest;
+}
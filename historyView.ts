@@ -0,0 +1,201 @@
+import { ItemView, Notice, TFile, WorkspaceLeaf } from "obsidian";
+import type GeminiNotePlugin from "./main";
+import { HistoryEntry, HistoryStatus } from "./types";
+
+export const HISTORY_VIEW_TYPE = 'gemini-note-history';
+
+const ACTION_LABELS: Record<HistoryEntry['outputAction'], string> = {
+    create_note: 'Create Note',
+    replace_selection: 'Replace',
+    insert_after: 'Insert'
+};
+
+const STATUS_LABELS: Record<HistoryStatus, string> = {
+    success: '',
+    copied: 'copied to clipboard',
+    review_pending: 'awaiting review',
+    rejected: 'rejected',
+    error: 'failed'
+};
+
+/**
+ * Sidebar view to browse, search, copy and re-run past generations.
+ */
+export class HistoryView extends ItemView {
+    private plugin: GeminiNotePlugin;
+    private query = "";
+    private expandedId: string | null = null;
+    private listEl: HTMLElement | null = null;
+    private unsubscribe: (() => void) | null = null;
+
+    constructor(leaf: WorkspaceLeaf, plugin: GeminiNotePlugin) {
+        super(leaf);
+        this.plugin = plugin;
+    }
+
+    getViewType(): string {
+        return HISTORY_VIEW_TYPE;
+    }
+
+    getDisplayText(): string {
+        return "Gemini History";
+    }
+
+    getIcon(): string {
+        return "history";
+    }
+
+    async onOpen() {
+        const container = this.contentEl;
+        container.empty();
+        container.addClass("gemini-history-view");
+
+        const headerEl = container.createDiv('gemini-history-header');
+        headerEl.style.display = 'flex';
+        headerEl.style.gap = '5px';
+        headerEl.style.marginBottom = '10px';
+
+        const searchInput = headerEl.createEl('input', { type: 'text', placeholder: 'Search history...' });
+        searchInput.style.flexGrow = '1';
+        searchInput.value = this.query;
+        searchInput.addEventListener('input', () => {
+            this.query = searchInput.value.toLowerCase();
+            this.render();
+        });
+
+        const clearBtn = headerEl.createEl('button', { text: 'Clear' });
+        clearBtn.onclick = async () => {
+            if (window.confirm("Delete the whole generation history?")) {
+                await this.plugin.history.clear();
+            }
+        };
+
+        this.listEl = container.createDiv('gemini-history-list');
+        this.unsubscribe = this.plugin.history.onChange(() => this.render());
+        this.render();
+    }
+
+    async onClose() {
+        this.unsubscribe?.();
+        this.unsubscribe = null;
+    }
+
+    /**
+     * Expands and scrolls to a single entry, clearing any search filter.
+     */
+    showEntry(id: string) {
+        this.query = "";
+        const searchInput = this.contentEl.querySelector('input');
+        if (searchInput) searchInput.value = "";
+        this.expandedId = id;
+        this.render();
+        this.listEl?.querySelector(`[data-entry-id="${id}"]`)?.scrollIntoView({ block: 'start' });
+    }
+
+    private render() {
+        const listEl = this.listEl;
+        if (!listEl) return;
+        listEl.empty();
+
+        const entries = this.plugin.history.getEntries().filter(entry => this.matches(entry));
+        if (entries.length === 0) {
+            listEl.createEl('p', { text: this.query ? 'No matching generations.' : 'No generations yet.' })
+                .style.color = 'var(--text-muted)';
+            return;
+        }
+
+        entries.forEach(entry => this.renderEntry(listEl, entry));
+    }
+
+    private matches(entry: HistoryEntry): boolean {
+        if (!this.query) return true;
+        const haystack = [
+            entry.request.instructionPath,
+            entry.request.selectedText,
+            entry.rawResponse,
+            entry.model,
+            entry.target.filePath,
+            entry.createdNotePath || "",
+            entry.error || ""
+        ].join('\n').toLowerCase();
+        return haystack.includes(this.query);
+    }
+
+    private renderEntry(listEl: HTMLElement, entry: HistoryEntry) {
+        const isExpanded = this.expandedId === entry.id;
+        const itemEl = listEl.createDiv('gemini-history-item');
+        itemEl.setAttr('data-entry-id', entry.id);
+        itemEl.style.borderBottom = '1px solid var(--background-modifier-border)';
+        itemEl.style.padding = '6px 0';
+
+        const titleEl = itemEl.createDiv();
+        titleEl.style.cursor = 'pointer';
+        titleEl.style.fontWeight = 'bold';
+        const instructionName = entry.request.instructionPath.split('/').pop()?.replace(/\.md$/, '') || 'Instruction';
+        titleEl.setText(`${entry.status === 'error' ? '⚠️ ' : ''}${instructionName} · ${ACTION_LABELS[entry.outputAction]}`);
+        titleEl.onclick = () => {
+            this.expandedId = isExpanded ? null : entry.id;
+            this.render();
+        };
+
+        const metaEl = itemEl.createDiv();
+        metaEl.style.fontSize = '0.8em';
+        metaEl.style.color = 'var(--text-muted)';
+        const statusLabel = STATUS_LABELS[entry.status] ? ` · ${STATUS_LABELS[entry.status]}` : '';
+        metaEl.setText(`${new Date(entry.timestamp).toLocaleString()} · ${entry.model} · ${(entry.durationMs / 1000).toFixed(1)}s · ${entry.target.filePath}${statusLabel}`);
+
+        if (!isExpanded) return;
+
+        const addSection = (label: string, text: string) => {
+            itemEl.createEl('h6', { text: label }).style.margin = '8px 0 2px 0';
+            const pre = itemEl.createEl('pre', { text });
+            pre.style.whiteSpace = 'pre-wrap';
+            pre.style.maxHeight = '200px';
+            pre.style.overflowY = 'auto';
+            pre.style.fontSize = '0.8em';
+        };
+
+        addSection('Selection', entry.request.selectedText);
+        if (entry.request.backgroundFilePaths.length > 0) {
+            addSection('Background Files', entry.request.backgroundFilePaths.join('\n'));
+        }
+        if (entry.status === 'error') {
+            addSection('Error', entry.error || 'Unknown error');
+        } else {
+            addSection('Response', entry.rawResponse);
+        }
+
+        const actionsEl = itemEl.createDiv();
+        actionsEl.style.display = 'flex';
+        actionsEl.style.flexWrap = 'wrap';
+        actionsEl.style.gap = '5px';
+        actionsEl.style.marginTop = '6px';
+
+        const addButton = (text: string, onClick: () => void) => {
+            const btn = actionsEl.createEl('button', { text });
+            btn.onclick = onClick;
+        };
+
+        if (entry.status !== 'error') {
+            addButton('Copy Response', () => {
+                navigator.clipboard.writeText(entry.rawResponse);
+                new Notice("Response copied to clipboard.");
+            });
+        }
+        addButton('Re-run', () => this.plugin.rerunHistoryEntry(entry));
+        addButton('Open Source', () => this.openFile(entry.target.filePath));
+        if (entry.createdNotePath) {
+            const createdNotePath = entry.createdNotePath;
+            addButton('Open Created Note', () => this.openFile(createdNotePath));
+        }
+    }
+
+    private async openFile(path: string) {
+        const file = this.app.vault.getAbstractFileByPath(path);
+        if (!(file instanceof TFile)) {
+            new Notice(`File not found: ${path}`);
+            return;
+        }
+        await this.app.workspace.getLeaf(false).openFile(file);
+    }
+}
@@ -0,0 +1,33 @@
+/**
+ * Returns a user-facing message if `host` is not a usable API base URL:
+ * an absolute http(s) URL without query string or fragment. With
+ * `versioned`, the path must not end in an API version, since the
+ * configured version is appended to it.
+ */
+export function validateHostUrl(host: string, versioned = false): string | null {
+    let url: URL;
+    try {
+        url = new URL(host.trim());
+    } catch (e) {
+        return `"${host.trim()}" is not a valid URL. Use the form https://example.com.`;
+    }
+    if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+        return `The host must start with https:// or http://, not ${url.protocol}//.`;
+    }
+    if (url.search || url.hash) {
+        return "The host must not contain a query string or fragment.";
+    }
+    if (versioned && /\/v\d+(alpha|beta)?\d*\/?$/.test(url.pathname)) {
+        return "Leave the API version out of the host; set it in the API Version setting instead.";
+    }
+    return null;
+}
+
+/**
+ * The host as a base URL without trailing slashes, e.g. "https://proxy.example.com/gemini".
+ * Assumes the host passed validateHostUrl.
+ */
+export function normalizeHostUrl(host: string): string {
+    const url = new URL(host.trim());
+    return url.origin + url.pathname.replace(/\/+$/, '');
+}
@@ -0,0 +1,62 @@
+import { Editor, MarkdownFileInfo, MarkdownView, TFile, normalizePath } from "obsidian";
+import type GeminiNotePlugin from "./main";
+import { getInstructionGroup, listInstructionFiles } from "./instructions";
+
+const COMMAND_PREFIX = 'instruction:';
+
+/**
+ * Registers one command per instruction file, so instructions can run
+ * without the generation dialog and be bound to hotkeys. `sync` brings the
+ * commands in line with the instructions folder after files change.
+ *
+ * Command IDs are derived from the path inside the instructions folder, so
+ * hotkeys survive restarts but not renames.
+ */
+export class InstructionCommands {
+    private plugin: GeminiNotePlugin;
+    private registered = new Map<string, string>(); // Command ID -> instruction path
+
+    constructor(plugin: GeminiNotePlugin) {
+        this.plugin = plugin;
+    }
+
+    sync() {
+        const folderPath = this.plugin.settings.instructionsFolder;
+        const wanted = new Map<string, TFile>();
+        listInstructionFiles(this.plugin.app, folderPath).forEach(file => {
+            const relative = file.path.slice(normalizePath(folderPath).length + 1).replace(/\.md$/, '');
+            wanted.set(COMMAND_PREFIX + relative, file);
+        });
+
+        this.registered.forEach((path, id) => {
+            const file = wanted.get(id);
+            if (!file || file.path !== path) {
+                this.plugin.removeCommand(id);
+                this.registered.delete(id);
+            }
+        });
+
+        wanted.forEach((file, id) => {
+            if (this.registered.has(id)) return;
+            const path = file.path;
+            const group = getInstructionGroup(file, folderPath);
+            (this.plugin as any).addCommand({
+                id,
+                name: group ? `${file.basename} (${group})` : file.basename,
+                editorCallback: (editor: Editor, view: MarkdownView | MarkdownFileInfo) => {
+                    this.plugin.runInstruction(path, editor, view);
+                }
+            });
+            this.registered.set(id, path);
+        });
+    }
+
+    /**
+     * Whether a vault path is inside the instructions folder, i.e. whether
+     * a change to it may add, rename or remove a command.
+     */
+    affects(path: string): boolean {
+        const folder = normalizePath(this.plugin.settings.instructionsFolder);
+        return path === folder || path.startsWith(folder + '/');
+    }
+}
@@ -0,0 +1,135 @@
+import { App, Modal, Notice, Setting, TFile, normalizePath } from "obsidian";
+import { getInstructionGroup, listInstructionFiles } from "./instructions";
+
+const NEW_INSTRUCTION_TEMPLATE = `---
+outputAction: replace_selection
+---
+Describe what the model should do with the selected text.
+`;
+
+/**
+ * Creates or edits an instruction file: its name, its group (subfolder of
+ * the instructions folder) and its content, frontmatter included.
+ */
+export class InstructionEditorModal extends Modal {
+    private folderPath: string;
+    private file: TFile | null;
+    private onSaved: () => void;
+    private name: string;
+    private group: string;
+    private content: string = NEW_INSTRUCTION_TEMPLATE;
+
+    // Explicitly declare properties
+    contentEl: HTMLElement;
+    app: App;
+
+    /**
+     * @param file The instruction to edit, or null for a new one
+     */
+    constructor(app: App, folderPath: string, file: TFile | null, onSaved: () => void) {
+        super(app);
+        this.folderPath = folderPath;
+        this.file = file;
+        this.onSaved = onSaved;
+        this.name = file ? file.basename : "";
+        this.group = file ? getInstructionGroup(file, folderPath) : "";
+    }
+
+    async onOpen() {
+        if (this.file) {
+            this.content = await this.app.vault.read(this.file);
+        }
+
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.createEl("h2", { text: this.file ? "Edit Instruction" : "New Instruction" });
+
+        new Setting(contentEl)
+            .setName("Name")
+            .setDesc("Shown in the instruction dropdown")
+            .addText(text => {
+                text.setPlaceholder("Summarize");
+                text.setValue(this.name);
+                text.onChange(value => { this.name = value; });
+            });
+
+        // Existing groups are suggested, a new name creates a subfolder
+        const groups = new Set<string>();
+        listInstructionFiles(this.app, this.folderPath).forEach(file => {
+            const group = getInstructionGroup(file, this.folderPath);
+            if (group) groups.add(group);
+        });
+        new Setting(contentEl)
+            .setName("Group")
+            .setDesc("Subfolder of the instructions folder; leave empty for the top level")
+            .addText(text => {
+                text.setPlaceholder("Writing");
+                text.setValue(this.group);
+                text.onChange(value => { this.group = value; });
+                const listEl = contentEl.createEl('datalist');
+                listEl.id = 'gemini-note-instruction-groups';
+                groups.forEach(group => listEl.createEl('option', { value: group }));
+                text.inputEl.setAttr('list', listEl.id);
+            });
+
+        contentEl.createEl('p', { text: 'Content. Frontmatter keys (provider, model, outputAction, contextType, saveLocation, temperature, metaPrompt) override the defaults for this instruction.' })
+            .style.color = 'var(--text-muted)';
+        const contentInput = contentEl.createEl('textarea');
+        contentInput.style.width = '100%';
+        contentInput.style.height = '260px';
+        contentInput.style.fontFamily = 'monospace';
+        contentInput.value = this.content;
+        contentInput.addEventListener('input', () => { this.content = contentInput.value; });
+
+        new Setting(contentEl)
+            .addButton(btn => btn
+                .setButtonText("Cancel")
+                .onClick(() => (this as any).close()))
+            .addButton(btn => btn
+                .setButtonText("Save")
+                .setCta()
+                .onClick(() => this.save()));
+    }
+
+    private async save() {
+        const name = this.name.replace(/[\\/:*?"<>|]/g, '').trim();
+        if (!name) {
+            new Notice("Please enter a name.");
+            return;
+        }
+        const group = this.group.split('/').map(part => part.replace(/[\\:*?"<>|]/g, '').trim()).filter(part => part && part !== '..').join('/');
+        const folder = normalizePath(group ? `${this.folderPath}/${group}` : this.folderPath);
+        const path = normalizePath(`${folder}/${name}.md`);
+
+        const existing = this.app.vault.getAbstractFileByPath(path);
+        if (existing && existing !== this.file) {
+            new Notice(`An instruction named "${name}" already exists in this group.`);
+            return;
+        }
+
+        try {
+            if (!this.app.vault.getAbstractFileByPath(folder)) {
+                await this.app.vault.createFolder(folder);
+            }
+            if (this.file) {
+                await this.app.vault.modify(this.file, this.content);
+                if (this.file.path !== path) {
+                    await this.app.fileManager.renameFile(this.file, path);
+                }
+            } else {
+                await this.app.vault.create(path, this.content);
+            }
+        } catch (error) {
+            console.error("Failed to save instruction:", error);
+            new Notice(`Could not save the instruction: ${error.message || error}`);
+            return;
+        }
+
+        (this as any).close();
+        this.onSaved();
+    }
+
+    onClose() {
+        this.contentEl.empty();
+    }
+}
@@ -0,0 +1,192 @@
+import { App, DropdownComponent, TFile, TFolder, Vault, getFrontMatterInfo, normalizePath, parseYaml } from "obsidian";
+import { CONTEXT_TYPE_LABELS, InstructionOverrides, OutputAction, ProviderId } from "./types";
+
+const PROVIDERS: ProviderId[] = ['gemini', 'openai'];
+const OUTPUT_ACTIONS: OutputAction[] = ['create_note', 'replace_selection', 'insert_after'];
+const CONTEXT_TYPES = Object.keys(CONTEXT_TYPE_LABELS);
+
+// Marks a JSON file as an instruction pack
+const PACK_FORMAT = 'gemini-note-instructions';
+
+export interface ParsedInstruction {
+    body: string; // Instruction text with the frontmatter removed
+    overrides: InstructionOverrides;
+}
+
+/**
+ * Splits an instruction file into its prompt body and the per-run overrides
+ * declared in its YAML frontmatter. Unknown keys and invalid values are ignored.
+ */
+export function parseInstruction(content: string, sourcePath = ""): ParsedInstruction {
+    const info = getFrontMatterInfo(content);
+    if (!info.exists) {
+        return { body: content, overrides: {} };
+    }
+
+    const body = content.slice(info.contentStart).replace(/^\s*\n/, "");
+    let frontmatter: any = null;
+    try {
+        frontmatter = parseYaml(info.frontmatter);
+    } catch (e) {
+        console.warn(`Invalid frontmatter in instruction file: ${sourcePath}`, e);
+    }
+
+    return { body, overrides: toOverrides(frontmatter, sourcePath) };
+}
+
+/**
+ * Instruction files in the configured folder and its subfolders, sorted by
+ * group, then name.
+ */
+export function listInstructionFiles(app: App, folderPath: string): TFile[] {
+    const folder = app.vault.getAbstractFileByPath(normalizePath(folderPath));
+    if (!(folder instanceof TFolder)) return [];
+    const files: TFile[] = [];
+    Vault.recurseChildren(folder, file => {
+        if (file instanceof TFile && file.extension === 'md') files.push(file);
+    });
+    return files.sort((a, b) =>
+        getInstructionGroup(a, folderPath).localeCompare(getInstructionGroup(b, folderPath)) || a.basename.localeCompare(b.basename));
+}
+
+/**
+ * Group of an instruction: its subfolder relative to the instructions
+ * folder, or "" for instructions at the top level.
+ */
+export function getInstructionGroup(file: TFile, folderPath: string): string {
+    const root = normalizePath(folderPath);
+    const parent = file.parent ? file.parent.path : "";
+    return parent === root ? "" : parent.slice(root.length + 1);
+}
+
+/**
+ * Fills an instruction dropdown, with top-level instructions first and one
+ * option group per subfolder.
+ */
+export function addInstructionOptions(dropdown: DropdownComponent, files: TFile[], folderPath: string) {
+    const groups = new Map<string, HTMLElement>();
+    files.forEach(file => {
+        const group = getInstructionGroup(file, folderPath);
+        if (!group) {
+            dropdown.addOption(file.path, file.basename);
+            return;
+        }
+        let groupEl = groups.get(group);
+        if (!groupEl) {
+            groupEl = dropdown.selectEl.createEl('optgroup', { attr: { label: group } });
+            groups.set(group, groupEl);
+        }
+        groupEl.createEl('option', { value: file.path, text: file.basename });
+    });
+}
+
+export interface InstructionPack {
+    format: typeof PACK_FORMAT;
+    version: 1;
+    instructions: { path: string; content: string }[]; // Paths relative to the instructions folder
+}
+
+/**
+ * All instructions of the folder as a pack that can be saved as one file.
+ */
+export async function exportInstructionPack(app: App, folderPath: string): Promise<InstructionPack> {
+    const root = normalizePath(folderPath);
+    const files = listInstructionFiles(app, folderPath);
+    const instructions = await Promise.all(files.map(async file => ({
+        path: file.path.slice(root.length + 1),
+        content: await app.vault.read(file)
+    })));
+    return { format: PACK_FORMAT, version: 1, instructions };
+}
+
+/**
+ * Parses the JSON of an instruction pack. Throws if it is not one.
+ */
+export function parseInstructionPack(json: string): InstructionPack {
+    let data: any;
+    try {
+        data = JSON.parse(json);
+    } catch (e) {
+        throw new Error("The file is not valid JSON.");
+    }
+    if (!data || data.format !== PACK_FORMAT || !Array.isArray(data.instructions)) {
+        throw new Error("The file is not an instruction pack.");
+    }
+    const instructions = data.instructions.filter((entry: any) =>
+        entry && typeof entry.path === 'string' && typeof entry.content === 'string');
+    return { format: PACK_FORMAT, version: 1, instructions };
+}
+
+/**
+ * Writes instructions into the folder, creating subfolders as needed.
+ * Existing files are never overwritten; paths that would leave the folder
+ * or are not Markdown files are skipped too.
+ */
+export async function writeInstructionFiles(app: App, folderPath: string, instructions: { path: string; content: string }[]): Promise<{ created: string[]; skipped: string[] }> {
+    const root = normalizePath(folderPath);
+    const created: string[] = [];
+    const skipped: string[] = [];
+
+    for (const instruction of instructions) {
+        const relative = normalizePath(instruction.path);
+        const path = normalizePath(`${root}/${relative}`);
+        if (relative.split('/').includes('..') || !path.endsWith('.md') || app.vault.getAbstractFileByPath(path)) {
+            skipped.push(instruction.path);
+            continue;
+        }
+        const folder = path.slice(0, path.lastIndexOf('/'));
+        if (folder && !app.vault.getAbstractFileByPath(folder)) {
+            await app.vault.createFolder(folder);
+        }
+        await app.vault.create(path, instruction.content);
+        created.push(path);
+    }
+    return { created, skipped };
+}
+
+export async function readInstruction(app: App, path: string): Promise<ParsedInstruction> {
+    const file = app.vault.getAbstractFileByPath(path);
+    if (!(file instanceof TFile)) {
+        return { body: "", overrides: {} };
+    }
+    return parseInstruction(await app.vault.read(file), path);
+}
+
+function toOverrides(frontmatter: any, sourcePath: string): InstructionOverrides {
+    const overrides: InstructionOverrides = {};
+    if (!frontmatter || typeof frontmatter !== 'object') return overrides;
+
+    const warn = (key: string) => console.warn(`Ignoring invalid '${key}' in instruction frontmatter: ${sourcePath}`);
+
+    if (frontmatter.provider !== undefined) {
+        if (PROVIDERS.includes(frontmatter.provider)) overrides.provider = frontmatter.provider;
+        else warn('provider');
+    }
+    if (frontmatter.model !== undefined) {
+        if (typeof frontmatter.model === 'string' && frontmatter.model.trim()) overrides.model = frontmatter.model.trim();
+        else warn('model');
+    }
+    if (frontmatter.outputAction !== undefined) {
+        if (OUTPUT_ACTIONS.includes(frontmatter.outputAction)) overrides.outputAction = frontmatter.outputAction;
+        else warn('outputAction');
+    }
+    if (frontmatter.contextType !== undefined) {
+        if (CONTEXT_TYPES.includes(frontmatter.contextType)) overrides.contextType = frontmatter.contextType;
+        else warn('contextType');
+    }
+    if (frontmatter.saveLocation !== undefined) {
+        if (typeof frontmatter.saveLocation === 'string') overrides.saveLocation = frontmatter.saveLocation;
+        else warn('saveLocation');
+    }
+    if (frontmatter.temperature !== undefined) {
+        const temperature = Number(frontmatter.temperature);
+        if (!isNaN(temperature) && temperature >= 0 && temperature <= 2) overrides.temperature = temperature;
+        else warn('temperature');
+    }
+    if (frontmatter.metaPrompt !== undefined) {
+        if (typeof frontmatter.metaPrompt === 'string' && frontmatter.metaPrompt.trim()) overrides.metaPrompt = frontmatter.metaPrompt;
+        else warn('metaPrompt');
+    }
+
+    return overrides;
+}
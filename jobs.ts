@@ -0,0 +1,136 @@
+import { Menu } from "obsidian";
+
+export interface Job {
+    id: number;
+    label: string;
+    startedAt: number;
+    controller: AbortController; // Aborting it cancels the job's requests
+}
+
+/**
+ * Generations in flight, each with its abort handle. A job leaves the list
+ * when it finishes or is cancelled.
+ */
+export class JobTracker {
+    private jobs: Job[] = [];
+    private nextId = 1;
+    private listeners: (() => void)[] = [];
+
+    start(label: string): Job {
+        const job: Job = { id: this.nextId++, label, startedAt: Date.now(), controller: new AbortController() };
+        this.jobs.push(job);
+        this.notify();
+        return job;
+    }
+
+    /**
+     * Removes the job from the list; from then on it can no longer be cancelled.
+     */
+    finish(job: Job) {
+        const before = this.jobs.length;
+        this.jobs = this.jobs.filter(candidate => candidate !== job);
+        if (this.jobs.length !== before) this.notify();
+    }
+
+    cancel(job: Job) {
+        if (!this.jobs.includes(job)) return;
+        job.controller.abort();
+        this.finish(job);
+    }
+
+    cancelAll() {
+        this.jobs.slice().forEach(job => this.cancel(job));
+    }
+
+    getJobs(): Job[] {
+        return this.jobs;
+    }
+
+    onChange(listener: () => void): () => void {
+        this.listeners.push(listener);
+        return () => {
+            this.listeners = this.listeners.filter(l => l !== listener);
+        };
+    }
+
+    private notify() {
+        this.listeners.forEach(listener => listener());
+    }
+}
+
+/**
+ * Status bar item showing the running jobs with their elapsed time. Hidden
+ * while nothing runs; clicking it opens a menu to cancel jobs.
+ */
+export class JobStatusBar {
+    private el: HTMLElement;
+    private tracker: JobTracker;
+    private timer = 0;
+    private unsubscribe: () => void;
+
+    constructor(el: HTMLElement, tracker: JobTracker) {
+        this.el = el;
+        this.tracker = tracker;
+        this.el.style.cursor = 'pointer';
+        this.el.onclick = (evt) => this.openMenu(evt);
+        this.unsubscribe = tracker.onChange(() => this.render());
+        this.render();
+    }
+
+    destroy() {
+        this.unsubscribe();
+        window.clearInterval(this.timer);
+        this.timer = 0;
+        this.el.remove();
+    }
+
+    private render() {
+        const jobs = this.tracker.getJobs();
+        // Tick only while something runs, so the elapsed time stays current
+        if (jobs.length > 0 && !this.timer) {
+            this.timer = window.setInterval(() => this.render(), 1000);
+        } else if (jobs.length === 0 && this.timer) {
+            window.clearInterval(this.timer);
+            this.timer = 0;
+        }
+
+        this.el.style.display = jobs.length > 0 ? '' : 'none';
+        if (jobs.length === 0) return;
+
+        const oldest = jobs[0];
+        this.el.setText(jobs.length === 1
+            ? `Gemini: ${oldest.label} · ${formatElapsed(Date.now() - oldest.startedAt)}`
+            : `Gemini: ${jobs.length} jobs · ${formatElapsed(Date.now() - oldest.startedAt)}`);
+        this.el.title = "Click to cancel";
+    }
+
+    private openMenu(evt: MouseEvent) {
+        const jobs = this.tracker.getJobs();
+        if (jobs.length === 0) return;
+
+        const menu = new Menu();
+        jobs.forEach(job => {
+            menu.addItem(item => item
+                .setTitle(`Cancel "${job.label}" (${formatElapsed(Date.now() - job.startedAt)})`)
+                .setIcon('x')
+                .onClick(() => this.tracker.cancel(job)));
+        });
+        if (jobs.length > 1) {
+            menu.addSeparator();
+            menu.addItem(item => item
+                .setTitle('Cancel all')
+                .setIcon('x-circle')
+                .onClick(() => this.tracker.cancelAll()));
+        }
+        menu.showAtMouseEvent(evt);
+    }
+}
+
+/**
+ * Elapsed time as m:ss.
+ */
+function formatElapsed(ms: number): string {
+    const seconds = Math.floor(ms / 1000);
+    const rest = seconds % 60;
+    return `${Math.floor(seconds / 60)}:${rest < 10 ? '0' : ''}${rest}`;
+}
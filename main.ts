@@ -1,17 +1,113 @@
 
-import { Plugin, Editor, MarkdownView, Notice, TFile, normalizePath, App } from 'obsidian';
-import { GeminiNoteSettings, DEFAULT_SETTINGS, GenerationRequest, OutputAction } from './types';
+import { Plugin, Editor, MarkdownFileInfo, MarkdownView, Menu, Notice, TAbstractFile, TFile, normalizePath, App, WorkspaceLeaf } from 'obsidian';
+import { GeminiNoteSettings, DEFAULT_SETTINGS, GenerationRequest, GenerationResponse, HistoryEntry, HistoryStatus, InstructionOverrides, ModelProfile, OutputAction, PromptAttachment, ProviderId } from './types';
 import { GeminiNoteSettingTab } from './settings';
-import { GenerationConfigModal } from './modal';
+import { BackgroundSuggestion, GenerationConfigModal, GenerationConfigResult } from './modal';
 import { GeminiService } from './geminiService';
+import { ReviewModal, ReviewDecision } from './reviewModal';
+import { PromptPreviewFile, PromptPreviewModal } from './promptPreviewModal';
+import { applyCitations } from './citations';
+import { listInstructionFiles, readInstruction, writeInstructionFiles } from './instructions';
+import { STARTER_INSTRUCTIONS } from './starterInstructions';
+import { InstructionCommands } from './instructionCommands';
+import { ContinueWriter, ghostTextExtension } from './continueWriting';
+import { createProvider, getProviderConfig, getProviderConfigError, PROVIDER_LABELS, withModelProfile, withProviderModel } from './providers';
+import { renderInstructionTemplate, TemplateError } from './templateVariables';
+import { RangeAnchorManager } from './rangeAnchors';
+import { GenerationHistory, toHistoryRequest } from './history';
+import { HistoryView, HISTORY_VIEW_TYPE } from './historyView';
+import { ChatView, CHAT_VIEW_TYPE } from './chatView';
+import { BatchQueue } from './batch';
+import { BatchModal } from './batchModal';
+import { BatchView, BATCH_VIEW_TYPE } from './batchView';
+import { buildNoteFrontmatter } from './noteProperties';
+import { confirmAction, promptForText } from './promptModals';
+import { applyTokenBudget, formatReference, getTokenBudget, ReferenceFile } from './tokenBudget';
+import { VaultIndex } from './vaultIndex';
+import { AttachmentResult, collectAttachments, EmbedSource } from './attachments';
+import { isSupportedAttachment } from './openAiProvider';
+import { cancelledError, describeError, isCancelled } from './errors';
+import { JobStatusBar, JobTracker } from './jobs';
+import { getEnclosingSection, getScopeNoteFiles, includesFullNote } from './contextScopes';
+
+export interface CreatedNote {
+    file: TFile; // The note that received the content
+    outcome: 'created' | 'appended' | 'overwritten';
+}
 
 export default class GeminiNotePlugin extends Plugin {
     settings: GeminiNoteSettings;
     app: App;
+    anchors: RangeAnchorManager;
+    history: GenerationHistory;
+    vaultIndex: VaultIndex;
+    batch: BatchQueue;
+    jobs: JobTracker;
+    instructionCommands: InstructionCommands;
+    continueWriter: ContinueWriter;
 
     async onload() {
         await this.loadSettings();
 
+        // Tracks selections through edits until their generation result is written
+        this.anchors = new RangeAnchorManager(this.app);
+        (this as any).registerEditorExtension(this.anchors.extension());
+        this.continueWriter = new ContinueWriter(this);
+        (this as any).registerEditorExtension(ghostTextExtension());
+        this.history = new GenerationHistory(this.app, (this as any).manifest.dir, () => this.settings.historyLimit);
+        await this.history.load();
+        (this as any).registerView(HISTORY_VIEW_TYPE, (leaf: WorkspaceLeaf) => new HistoryView(leaf, this));
+        (this as any).registerView(CHAT_VIEW_TYPE, (leaf: WorkspaceLeaf) => new ChatView(leaf, this));
+        (this as any).registerView(BATCH_VIEW_TYPE, (leaf: WorkspaceLeaf) => new BatchView(leaf, this));
+
+        // Running generations, listed in the status bar where they can be cancelled
+        this.jobs = new JobTracker();
+        const jobStatusBar = new JobStatusBar((this as any).addStatusBarItem(), this.jobs);
+        (this as any).register(() => {
+            this.jobs.cancelAll();
+            jobStatusBar.destroy();
+        });
+
+        // A batch that was running when Obsidian closed picks up where it stopped
+        this.batch = new BatchQueue(this, (this as any).manifest.dir);
+        await this.batch.load();
+
+        // Lexical index behind the background note suggestions, built once the vault has loaded
+        this.vaultIndex = new VaultIndex(this.app);
+        (this as any).register(() => this.vaultIndex.clear());
+        // One command per instruction file, kept in sync with the instructions folder
+        this.instructionCommands = new InstructionCommands(this);
+        this.app.workspace.onLayoutReady(() => {
+            if (this.settings.suggestBackgroundNotes) this.vaultIndex.build();
+            this.batch.resumeInterrupted();
+            this.instructionCommands.sync();
+            this.offerStarterInstructions();
+        });
+        (this as any).registerEvent(this.app.vault.on('create', file => {
+            this.vaultIndex.handleModify(file);
+            this.syncInstructionCommands(file.path);
+        }));
+        (this as any).registerEvent(this.app.vault.on('modify', file => this.vaultIndex.handleModify(file)));
+        (this as any).registerEvent(this.app.vault.on('delete', file => {
+            this.vaultIndex.handleDelete(file);
+            this.syncInstructionCommands(file.path);
+            if (this.settings.instructionRunOptions[file.path]) {
+                delete this.settings.instructionRunOptions[file.path];
+                this.saveSettings();
+            }
+        }));
+        (this as any).registerEvent(this.app.workspace.on('editor-menu', (menu: Menu, editor: Editor, info: MarkdownView | MarkdownFileInfo) => {
+            this.addInstructionMenuItems(menu, editor, info);
+        }));
+
+        (this as any).registerEvent(this.app.vault.on('rename', (file, oldPath) => {
+            this.anchors.handleRename(file, oldPath);
+            this.history.handleRename(file, oldPath);
+            this.vaultIndex.handleRename(file, oldPath);
+            this.handleInstructionRename(file, oldPath);
+            this.batch.handleRename(file, oldPath);
+        }));
+
         (this as any).addSettingTab(new GeminiNoteSettingTab(this.app, this));
 
         (this as any).addCommand({
@@ -21,10 +117,119 @@ export default class GeminiNotePlugin extends Plugin {
                 this.handleGenerateCommand(editor, view);
             }
         });
+
+        (this as any).addCommand({
+            id: 'continue-writing',
+            name: 'Continue Writing at Cursor',
+            editorCallback: (editor: Editor, view: MarkdownView | MarkdownFileInfo) => {
+                if (view.file) this.continueWriter.insert(editor, view.file);
+            }
+        });
+
+        (this as any).addCommand({
+            id: 'suggest-continuation',
+            name: 'Suggest Continuation (Tab to Accept)',
+            editorCallback: (editor: Editor, view: MarkdownView | MarkdownFileInfo) => {
+                if (view.file) this.continueWriter.suggest(editor, view.file);
+            }
+        });
+
+        (this as any).addCommand({
+            id: 'open-history',
+            name: 'Open Generation History',
+            callback: () => {
+                this.activateHistoryView();
+            }
+        });
+
+        (this as any).addCommand({
+            id: 'open-chat',
+            name: 'Open Chat',
+            callback: () => {
+                this.activateChatView();
+            }
+        });
+
+        (this as any).addCommand({
+            id: 'batch-apply',
+            name: 'Batch Apply Instruction',
+            callback: () => {
+                if (this.batch.hasUnfinishedJob()) {
+                    new Notice("A batch is already in progress. Finish or cancel it in the batch view first.");
+                    this.activateBatchView();
+                    return;
+                }
+                (new BatchModal(this.app, this, () => this.activateBatchView()) as any).open();
+            }
+        });
+
+        (this as any).addCommand({
+            id: 'open-batch-progress',
+            name: 'Open Batch Progress',
+            callback: () => {
+                this.activateBatchView();
+            }
+        });
+
+        (this as any).addCommand({
+            id: 'cancel-generations',
+            name: 'Cancel Running Generations',
+            checkCallback: (checking: boolean) => {
+                if (this.jobs.getJobs().length === 0) return false;
+                if (!checking) {
+                    this.jobs.cancelAll();
+                }
+                return true;
+            }
+        });
+
+        (this as any).addCommand({
+            id: 'show-note-provenance',
+            name: 'Show Generation Behind Current Note',
+            checkCallback: (checking: boolean) => {
+                const file = this.app.workspace.getActiveFile();
+                if (!file) return false;
+                if (!checking) {
+                    this.showProvenance(file);
+                }
+                return true;
+            }
+        });
+    }
+
+    /**
+     * Writes the starter instructions into the instructions folder, keeping
+     * any existing files with the same names.
+     */
+    async createStarterInstructions() {
+        const { created } = await writeInstructionFiles(this.app, this.settings.instructionsFolder, STARTER_INSTRUCTIONS);
+        new Notice(created.length > 0
+            ? `Created ${created.length} starter instructions in ${this.settings.instructionsFolder}.`
+            : "The starter instructions already exist.");
+    }
+
+    /**
+     * On first run with an empty instructions folder, offers to fill it with
+     * the starter set. Asked only once.
+     */
+    private async offerStarterInstructions() {
+        if (this.settings.starterInstructionsOffered) return;
+        this.settings.starterInstructionsOffered = true;
+        await this.saveSettings();
+        if (listInstructionFiles(this.app, this.settings.instructionsFolder).length > 0) return;
+
+        const confirmed = await confirmAction(this.app,
+            `No instructions found in "${this.settings.instructionsFolder}". Create a starter set (summarize, fix grammar, extract action items, ...) there? You can also do this later in the plugin settings.`,
+            "Create");
+        if (confirmed) await this.createStarterInstructions();
     }
 
     async loadSettings() {
-        this.settings = Object.assign({}, DEFAULT_SETTINGS, await (this as any).loadData());
+        // Defaults are deep-copied, so editing the profiles, lists and tables never mutates DEFAULT_SETTINGS
+        const defaults: GeminiNoteSettings = JSON.parse(JSON.stringify(DEFAULT_SETTINGS));
+        this.settings = Object.assign(defaults, await (this as any).loadData());
+        // Nested objects need their own merge so newly added keys get defaults
+        this.settings.generatedNoteProperties = Object.assign({}, DEFAULT_SETTINGS.generatedNoteProperties, this.settings.generatedNoteProperties);
     }
 
     async saveSettings() {
@@ -34,133 +239,383 @@ export default class GeminiNotePlugin extends Plugin {
     private handleGenerateCommand(editor: Editor, view: MarkdownView) {
         const selectedText = editor.getSelection();
         if (!selectedText) {
-            new Notice("Please select some text first.");
+            new Notice("Please select some text first, or use \"Continue Writing at Cursor\" to write from the cursor.");
             return;
         }
 
         const parentFile = view.file;
         if (!parentFile) return;
 
-        (new GenerationConfigModal(this.app, this.settings, async (result) => {
-            // Read instruction file content
-            const instructionFile = this.app.vault.getAbstractFileByPath(result.instructionPath);
-            let instructionContent = "";
-            if (instructionFile instanceof TFile) {
-                instructionContent = await this.app.vault.read(instructionFile);
-            }
-
-            // Read Background Files Content
-            let backgroundContext = "";
-            if (result.backgroundFiles && result.backgroundFiles.length > 0) {
-                for (const file of result.backgroundFiles) {
-                    try {
-                        const content = await this.app.vault.read(file);
-                        backgroundContext += `\n--- REFERENCE FILE: ${file.path} ---\n${content}\n`;
-                    } catch (e) {
-                        console.warn(`Failed to read background file: ${file.path}`, e);
-                    }
-                }
+        (new GenerationConfigModal(this.app, this.settings, (result) => {
+            this.rememberRunOptions(result);
+            this.startGeneration(editor, parentFile, selectedText, result);
+        }, {
+            selectedText: editor.getSelection(),
+            selectionOffset: editor.posToOffset(editor.getCursor('from')),
+            parentFile,
+            suggestions: this.getBackgroundSuggestions(parentFile, editor.getSelection())
+        }) as any).open();
+    }
+
+    /**
+     * Runs an instruction on the selection without the generation dialog,
+     * with the options last used for it there, or else its frontmatter and
+     * the plugin defaults.
+     */
+    async runInstruction(instructionPath: string, editor: Editor, view: MarkdownView | MarkdownFileInfo) {
+        const selectedText = editor.getSelection();
+        if (!selectedText) {
+            new Notice("Please select some text first.");
+            return;
+        }
+        const parentFile = view.file;
+        if (!parentFile) return;
+
+        const { overrides } = await readInstruction(this.app, instructionPath);
+        const remembered = this.settings.instructionRunOptions[instructionPath];
+        const provider = remembered ? remembered.provider : overrides.provider ?? this.settings.provider;
+        const profile = remembered && remembered.profileName
+            ? this.settings.modelProfiles.find(candidate => candidate.name === remembered.profileName) || null
+            : null;
+
+        this.startGeneration(editor, parentFile, selectedText, {
+            instructionPath,
+            contextType: remembered ? remembered.contextType : overrides.contextType ?? this.settings.defaultContext,
+            saveLocation: remembered ? remembered.saveLocation : overrides.saveLocation ?? this.settings.defaultSaveLocation,
+            outputAction: remembered ? remembered.outputAction : overrides.outputAction ?? this.settings.defaultOutputAction,
+            collisionStrategy: remembered ? remembered.collisionStrategy : this.settings.noteCollisionStrategy,
+            backgroundFiles: [],
+            provider,
+            modelName: remembered ? remembered.modelName : overrides.model ?? getProviderConfig(this.settings, provider).modelName,
+            profile,
+            overrides,
+            preview: false
+        });
+    }
+
+    private async rememberRunOptions(result: GenerationConfigResult) {
+        this.settings.instructionRunOptions[result.instructionPath] = {
+            contextType: result.contextType,
+            outputAction: result.outputAction,
+            saveLocation: result.saveLocation,
+            collisionStrategy: result.collisionStrategy,
+            provider: result.provider,
+            modelName: result.modelName,
+            profileName: result.profile ? result.profile.name : undefined
+        };
+        await this.saveSettings();
+    }
+
+    private syncInstructionCommands(path: string) {
+        if (this.app.workspace.layoutReady && this.instructionCommands.affects(path)) {
+            this.instructionCommands.sync();
+        }
+    }
+
+    /**
+     * Moves the remembered options along with renamed instructions (or
+     * instruction folders) and updates the commands.
+     */
+    private handleInstructionRename(file: TAbstractFile, oldPath: string) {
+        const runOptions = this.settings.instructionRunOptions;
+        let changed = false;
+        Object.keys(runOptions).forEach(path => {
+            if (path !== oldPath && !path.startsWith(oldPath + '/')) return;
+            runOptions[file.path + path.slice(oldPath.length)] = runOptions[path];
+            delete runOptions[path];
+            changed = true;
+        });
+        if (changed) this.saveSettings();
+
+        if (this.app.workspace.layoutReady && (this.instructionCommands.affects(file.path) || this.instructionCommands.affects(oldPath))) {
+            this.instructionCommands.sync();
+        }
+    }
+
+    /**
+     * Adds the instructions chosen in the settings to the editor context
+     * menu while text is selected.
+     */
+    private addInstructionMenuItems(menu: Menu, editor: Editor, info: MarkdownView | MarkdownFileInfo) {
+        const entries = this.settings.editorMenuInstructions;
+        if (entries.length === 0 || !editor.getSelection()) return;
+
+        listInstructionFiles(this.app, this.settings.instructionsFolder)
+            .filter(file => entries.includes(file.path) || entries.includes(file.basename))
+            .forEach(file => {
+                menu.addItem(item => item
+                    .setTitle(`Gemini: ${file.basename}`)
+                    .setIcon('sparkles')
+                    .onClick(() => this.runInstruction(file.path, editor, info)));
+            });
+    }
+
+    /**
+     * Runs a generation for the current selection with the options chosen in
+     * the modal, or remembered for an instruction command.
+     */
+    private async startGeneration(editor: Editor, parentFile: TFile, selectedText: string, result: GenerationConfigResult) {
+        // Track the selection from here on, so the result lands there even if the note changes
+        const anchorId = this.anchors.createFromSelection(editor, parentFile);
+
+        // Read instruction file content (frontmatter is stripped from the prompt)
+        const instruction = await readInstruction(this.app, result.instructionPath);
+        const instructionContent = instruction.body;
+
+        // Read Background Files Content
+        const references = await this.readReferenceFiles((result.backgroundFiles || []).map(file => file.path));
+        const backgroundFilePaths = references.map(ref => ref.path);
+        const backgroundContext = references.map(formatReference).join('');
+
+        // Capture context
+        // The editor buffer, not the file: offsets below are taken from it, and unsaved edits count
+        const parentNoteContent = editor.getValue();
+        const parentNoteTitle = parentFile.name;
+        
+        // Context Awareness
+        const cursorFrom = editor.getCursor('from');
+        const cursorTo = editor.getCursor('to');
+        const lastLine = editor.lineCount();
+        
+        const { contextWindowLines, contextWindowChars } = this.settings;
+        
+        const textBefore = editor.getRange(
+            { line: Math.max(0, cursorFrom.line - contextWindowLines), ch: 0 }, 
+            cursorFrom
+        );
+        const contextBefore = textBefore.slice(Math.max(0, textBefore.length - contextWindowChars));
+
+        const contextAfter = editor.getRange(
+            cursorTo,
+            { line: Math.min(lastLine, cursorTo.line + contextWindowLines), ch: 0 }
+        ).slice(0, contextWindowChars);
+
+        // Extra notes or note parts of the chosen scope
+        const selectionOffset = editor.posToOffset(cursorFrom);
+        const scopeNotes = await this.readReferenceFiles(getScopeNoteFiles(this.app, result.contextType, parentFile).map(file => file.path));
+
+        const request: GenerationRequest = {
+            instructionPath: result.instructionPath,
+            instructionContent,
+            contextType: result.contextType,
+            saveLocation: result.saveLocation,
+            selectedText,
+            contextBefore,
+            contextAfter,
+            parentNoteContent,
+            parentNoteTitle,
+            sectionContent: result.contextType === 'selection_and_section' ? getEnclosingSection(editor.getValue(), selectionOffset) : "",
+            scopeNotesContext: scopeNotes.map(formatReference).join(''),
+            scopeNotePaths: scopeNotes.map(note => note.path),
+            backgroundContext,
+            backgroundFilePaths,
+            citeReferences: this.settings.citationMode !== 'off',
+            outputAction: result.outputAction,
+            collisionStrategy: result.collisionStrategy,
+            // A profile picked for this run wins over the instruction frontmatter
+            temperature: result.profile?.temperature ?? result.overrides.temperature,
+            maxOutputTokens: result.profile?.maxOutputTokens,
+            overrides: result.overrides,
+            profile: result.profile || undefined
+        };
+
+        // Fill in template placeholders; unknown ones abort before any API call
+        const fileCache = this.app.metadataCache.getFileCache(parentFile);
+        const headingAbove = (fileCache?.headings || [])
+            .filter(h => h.position.start.line <= cursorFrom.line)
+            .pop();
+        try {
+            request.instructionContent = await renderInstructionTemplate(instructionContent, {
+                request,
+                notePath: parentFile.path,
+                frontmatter: fileCache?.frontmatter || {},
+                heading: headingAbove ? headingAbove.heading : ""
+            });
+        } catch (e) {
+            if (e instanceof TemplateError) {
+                new Notice(e.message);
+                this.anchors.remove(anchorId);
+                return;
             }
+            throw e;
+        }
+
+        // Instruction frontmatter and the chosen profile override the plugin settings for this run only
+        const runSettings = this.getRunSettings(result.provider, result.modelName, result.outputAction, result.overrides, result.profile);
 
-            // Capture context
-            const parentNoteContent = await this.app.vault.read(parentFile);
-            const parentNoteTitle = parentFile.name;
-            
-            // Context Awareness
-            const cursorFrom = editor.getCursor('from');
-            const cursorTo = editor.getCursor('to');
-            const lastLine = editor.lineCount();
-            
-            const contextBefore = editor.getRange(
-                { line: Math.max(0, cursorFrom.line - 20), ch: 0 }, 
-                cursorFrom
-            ).slice(-1000);
-
-            const contextAfter = editor.getRange(
-                cursorTo,
-                { line: Math.min(lastLine, cursorTo.line + 20), ch: 0 }
-            ).slice(0, 1000);
-
-            const request: GenerationRequest = {
-                instructionPath: result.instructionPath,
-                instructionContent,
-                contextType: result.contextType,
-                saveLocation: result.saveLocation,
-                selectedText,
-                contextBefore,
-                contextAfter,
-                parentNoteContent,
-                parentNoteTitle,
-                backgroundContext,
-                outputAction: result.outputAction
-            };
-
-            this.runGeneration(request, parentFile, editor);
+        // Trim the context to the model's token budget before anything is sent
+        if (!this.fitContextToBudget(request, references, scopeNotes, runSettings, selectionOffset)) {
+            this.anchors.remove(anchorId);
+            return;
+        }
+        request.attachments = await this.readAttachments(request, parentFile, references, runSettings);
 
+        if (result.preview || this.settings.dryRun) {
+            this.previewPrompt(request, parentFile, anchorId, runSettings, references.concat(scopeNotes));
+            return;
+        }
+        this.runGeneration(request, parentFile, anchorId, runSettings);
+    }
+
+    /**
+     * Shows the assembled prompt of a request and sends it, as edited, only
+     * once confirmed.
+     * @param files The background and scope notes read for the request, trimmed ones included
+     */
+    private previewPrompt(request: GenerationRequest, parentFile: TFile, anchorId: number, settings: GeminiNoteSettings, files: ReferenceFile[]) {
+        const prompt = this.createService(settings).buildPrompt(request);
+        const sizeOf = (path: string) => {
+            const file = files.find(candidate => candidate.path === path);
+            return file ? file.content.length : 0;
+        };
+        const previewFiles: PromptPreviewFile[] = [
+            ...request.backgroundFilePaths.map(path => ({ path, kind: 'background' as const, size: sizeOf(path) })),
+            ...request.scopeNotePaths.map(path => ({ path, kind: 'scope' as const, size: sizeOf(path) })),
+            ...(request.attachments || []).map(attachment => ({
+                path: attachment.name,
+                kind: 'attachment' as const,
+                size: Math.floor(attachment.data.length * 3 / 4) // Decoded size of the base64 data
+            }))
+        ];
+        const model = `${PROVIDER_LABELS[settings.provider]} · ${getProviderConfig(settings).modelName}`;
+
+        (new PromptPreviewModal(this.app, prompt, previewFiles, model, (decision) => {
+            if (!decision) {
+                this.anchors.remove(anchorId);
+                return;
+            }
+            if (decision.prompt !== undefined) {
+                request.promptOverride = decision.prompt;
+            }
+            this.runGeneration(request, parentFile, anchorId, settings);
         }) as any).open();
     }
 
-    private async runGeneration(request: GenerationRequest, parentFile: TFile, editor: Editor) {
-        if (!this.settings.apiKey) {
-            new Notice("Gemini API key is not set. Please configure it in the plugin settings.");
+    /**
+     * Turns the citation markers in a response into links to the background
+     * files and scope notes, and warns about citations of files that were not sent.
+     */
+    private linkCitations(response: GenerationResponse, request: GenerationRequest, settings: GeminiNoteSettings) {
+        const result = applyCitations(
+            response.content,
+            // Scope notes are sent under the same REFERENCE FILE header, so they can be cited too
+            request.backgroundFilePaths.concat(request.scopeNotePaths),
+            settings.citationMode === 'footnotes' ? 'footnotes' : 'wikilinks',
+            request.outputAction === 'create_note' ? "" : request.parentNoteContent
+        );
+        response.content = result.content;
+        if (result.unknown.length > 0) {
+            new Notice(`⚠️ ${result.unknown.length} citation(s) point to files that were not provided and are flagged in the text: ${result.unknown.join(', ')}`, 10000);
+        }
+    }
+
+    private async runGeneration(request: GenerationRequest, parentFile: TFile, anchorId: number, settings: GeminiNoteSettings = this.settings) {
+        const configError = getProviderConfigError(settings);
+        if (configError) {
+            new Notice(configError);
+            this.anchors.remove(anchorId);
             return;
         }
 
         const snapshotText = request.selectedText;
-        const notice = new Notice("Generating response with Gemini...", 0);
+        const notice = new Notice("Generating response with Gemini... Cancel it from the status bar.", 0);
+        const startedAt = Date.now();
+        const instructionName = request.instructionPath.split('/').pop()?.replace(/\.md$/, '') || 'Generation';
+        const job = this.jobs.start(`${instructionName} (${parentFile.basename})`);
+        const signal = job.controller.signal;
+        const targetRange = this.anchors.getRange(anchorId) || { from: 0, to: 0 };
+        let response: GenerationResponse | null = null;
+        let createdNote: TFile | null = null;
+        let failure: string | undefined;
+        let outcome: HistoryStatus = 'success';
+        const historyId = `${startedAt}-${Math.random().toString(36).slice(2, 8)}`;
+
+        // In-place actions are streamed into the note as chunks arrive. Reviewed
+        // replacements are shown in a diff first, so they are not streamed.
+        // Writes are chained so chunks land in order even when the note is closed.
+        // For insertions the anchor covers the separator and the streamed text,
+        // so a cancelled stream can be rolled back completely.
+        const needsReview = this.needsReview(request, settings);
+        const shouldStream = request.outputAction !== 'create_note' && !needsReview;
+        const streamPrefix = request.outputAction === 'insert_after' ? "\n\n" : "";
+        const stream = { state: 'pending' as 'pending' | 'streaming' | 'rejected', text: "" };
+        let writes: Promise<void> = Promise.resolve();
+        let keepAnchor = false;
+
+        const onChunk = (chunk: string) => {
+            if (signal.aborted) return;
+            if (stream.state === 'pending') {
+                notice.hide();
+                stream.state = 'streaming';
+                writes = writes.then(async () => {
+                    if (signal.aborted || !(await this.isAnchorIntact(anchorId, snapshotText))) {
+                        stream.state = 'rejected';
+                        return;
+                    }
+                    if (request.outputAction === 'insert_after') {
+                        this.anchors.collapseToEnd(anchorId);
+                        await this.anchors.append(anchorId, streamPrefix);
+                    } else {
+                        await this.anchors.replace(anchorId, "");
+                    }
+                    stream.text = streamPrefix;
+                });
+            }
+            writes = writes.then(async () => {
+                if (stream.state !== 'streaming' || signal.aborted) return;
+                await this.anchors.append(anchorId, chunk);
+                stream.text += chunk;
+            });
+        };
 
         try {
-            const service = new GeminiService(
-                this.settings.apiKey, 
-                this.settings.apiHost,
-                this.settings.modelName, 
-                this.settings.createNoteMetaPrompt,
-                this.settings.inPlaceMetaPrompt
-            );
-            const response = await service.generateNote(request);
-            
-            notice.hide();
+            const service = this.createService(settings);
+            const result = await service.generateNote(request, shouldStream ? onChunk : undefined, signal);
+            // Past this point the job can no longer be cancelled
+            if (signal.aborted) throw cancelledError();
+            this.jobs.finish(job);
+            response = result;
+            if (request.citeReferences) {
+                this.linkCitations(response, request, settings);
+            }
 
-            const currentSelection = editor.getSelection();
-            let safeToReplace = false;
+            notice.hide();
+            await writes;
 
-            if (currentSelection === snapshotText) {
-                safeToReplace = true;
-            } else {
-                const docContent = editor.getValue();
-                const firstIndex = docContent.indexOf(snapshotText);
-                const lastIndex = docContent.lastIndexOf(snapshotText);
-
-                if (firstIndex !== -1 && firstIndex === lastIndex) {
-                    safeToReplace = true;
-                    // Logic to reset cursor selection could be added here if needed, 
-                    // but for now, we rely on clipboard fallback if exact cursor match is lost to be safe.
-                    // To make it truly auto-relocate is complex without range mapping. 
-                    // We will stick to the safer "Clipboard if moved" approach unless the user requests complex range math.
-                    
-                    // Simple relocation attempt:
-                    const prefix = docContent.substring(0, firstIndex);
-                    const lines = prefix.split('\n');
-                    const line = lines.length - 1;
-                    const ch = lines[lines.length - 1].length;
-                    
-                    const endPrefix = docContent.substring(0, firstIndex + snapshotText.length);
-                    const endLines = endPrefix.split('\n');
-                    const endLine = endLines.length - 1;
-                    const endCh = endLines[endLines.length - 1].length;
-
-                    editor.setSelection({ line, ch }, { line: endLine, ch: endCh });
+            // Streamed output is already in place; swap in the cleaned-up version
+            // (e.g. with code fences stripped) if it differs.
+            if (stream.state === 'streaming') {
+                if (streamPrefix + response.content !== stream.text) {
+                    await this.anchors.replace(anchorId, streamPrefix + response.content);
                 }
+                new Notice(request.outputAction === 'replace_selection'
+                    ? "Replaced text with AI generation."
+                    : "Inserted AI generation after selection.");
+                return;
+            }
+
+            if (needsReview) {
+                keepAnchor = true;
+                outcome = 'review_pending';
+                (new ReviewModal(this.app, snapshotText, response.content, (decision) => {
+                    this.applyReviewDecision(decision, request, parentFile, anchorId, settings, historyId);
+                }) as any).open();
+                return;
             }
 
+            const safeToReplace = stream.state !== 'rejected' && await this.isAnchorIntact(anchorId, snapshotText);
+
             if (!safeToReplace) {
+                outcome = 'copied';
                 new Notice("⚠️ Selection changed. Result copied to clipboard.");
                 let clipboardText = "";
                 if (request.outputAction === 'create_note') {
+                    const created = await this.createNoteFile(response, request, parentFile, settings);
+                    createdNote = created ? created.file : null;
+                    const linkTarget = created ? created.file.path : response.title;
                     clipboardText = response.anchorLabel 
-                        ? `[[${response.title}|${response.anchorLabel}]]` 
-                        : `[[${response.title}|${snapshotText}]]`;
-                    await this.createNoteFile(response, request, parentFile);
+                        ? `[[${linkTarget}|${response.anchorLabel}]]` 
+                        : `[[${linkTarget}|${snapshotText}]]`;
                 } else {
                     clipboardText = response.content;
                 }
@@ -169,42 +624,415 @@ export default class GeminiNotePlugin extends Plugin {
             }
 
             if (request.outputAction === 'create_note') {
-                await this.handleCreateNoteAction(response, request, parentFile, editor);
+                createdNote = await this.handleCreateNoteAction(response, request, parentFile, anchorId, settings);
             } else if (request.outputAction === 'replace_selection') {
-                editor.replaceSelection(response.content);
+                await this.anchors.replace(anchorId, response.content);
                 new Notice("Replaced text with AI generation.");
             } else if (request.outputAction === 'insert_after') {
-                const newText = snapshotText + "\n\n" + response.content;
-                editor.replaceSelection(newText);
+                await this.anchors.replace(anchorId, snapshotText + "\n\n" + response.content);
                 new Notice("Inserted AI generation after selection.");
             }
 
         } catch (error) {
             notice.hide();
-            console.error(error);
-            new Notice("Failed to get a response from Gemini. Check console.");
+            failure = error.message || String(error);
+            if (isCancelled(error)) {
+                // Take back whatever was streamed before the cancel
+                await writes;
+                if (stream.state === 'streaming') {
+                    await this.anchors.replace(anchorId, request.outputAction === 'replace_selection' ? snapshotText : "");
+                }
+                new Notice("Generation cancelled.");
+            } else if (stream.state === 'streaming') {
+                console.error(error);
+                new Notice(`Generation was interrupted. Partial output was left in the note.\n${describeError(error)}`, 10000);
+            } else {
+                console.error(error);
+                new Notice(`Generation failed: ${describeError(error)}`, 10000);
+            }
+        } finally {
+            this.jobs.finish(job);
+            if (!keepAnchor) {
+                this.anchors.remove(anchorId);
+            }
+            if (settings.historyEnabled) {
+                await this.history.add({
+                    id: historyId,
+                    timestamp: startedAt,
+                    durationMs: Date.now() - startedAt,
+                    status: response ? outcome : 'error',
+                    error: failure,
+                    provider: settings.provider,
+                    model: getProviderConfig(settings).modelName,
+                    outputAction: request.outputAction,
+                    request: toHistoryRequest(request),
+                    rawResponse: response ? response.rawText : "",
+                    target: { filePath: parentFile.path, from: targetRange.from, to: targetRange.to },
+                    createdNotePath: createdNote?.path
+                });
+            }
+        }
+    }
+
+    /**
+     * Background notes worth offering for a selection: the best index matches
+     * for the selected text, then the parent note's outgoing links and backlinks.
+     */
+    private getBackgroundSuggestions(parentFile: TFile, selectedText: string): BackgroundSuggestion[] {
+        if (!this.settings.suggestBackgroundNotes) return [];
+
+        const instructionsPrefix = normalizePath(this.settings.instructionsFolder) + '/';
+        const seen = new Set<string>([parentFile.path]);
+        const suggestions: BackgroundSuggestion[] = [];
+        const add = (path: string, reason: BackgroundSuggestion['reason']) => {
+            if (seen.has(path) || path.startsWith(instructionsPrefix)) return;
+            const file = this.app.vault.getAbstractFileByPath(path);
+            if (!(file instanceof TFile) || file.extension !== 'md') return;
+            seen.add(path);
+            suggestions.push({ file, reason });
+        };
+
+        if (this.vaultIndex.isReady()) {
+            this.vaultIndex
+                .search(selectedText, this.settings.backgroundSuggestionLimit, seen)
+                .forEach(match => add(match.file.path, 'match'));
+        }
+
+        const resolvedLinks = this.app.metadataCache.resolvedLinks;
+        Object.keys(resolvedLinks[parentFile.path] || {}).forEach(path => add(path, 'link'));
+        Object.keys(resolvedLinks).forEach(source => {
+            if (resolvedLinks[source][parentFile.path]) add(source, 'backlink');
+        });
+
+        return suggestions;
+    }
+
+    async readReferenceFiles(paths: string[]): Promise<ReferenceFile[]> {
+        const references: ReferenceFile[] = [];
+        for (const path of paths) {
+            const file = this.app.vault.getAbstractFileByPath(path);
+            if (!(file instanceof TFile)) {
+                console.warn(`Background file not found: ${path}`);
+                continue;
+            }
+            try {
+                const content = await this.app.vault.read(file);
+                references.push({ path: file.path, content, mtime: file.stat.mtime });
+            } catch (e) {
+                console.warn(`Failed to read background file: ${file.path}`, e);
+            }
+        }
+        return references;
+    }
+
+    /**
+     * Reads the images and PDFs embedded in the selection (and, if enabled, in
+     * the background files that are still sent) and warns about skipped ones,
+     * including those the provider of the run cannot take.
+     */
+    private async readAttachments(request: GenerationRequest, parentFile: TFile, references: ReferenceFile[], settings: GeminiNoteSettings): Promise<PromptAttachment[]> {
+        const result = await this.collectRequestAttachments(request, parentFile, references, settings);
+        if (result.skipped.length > 0) {
+            new Notice(`Attachments not sent: ${result.skipped.join(', ')}`, 8000);
+        }
+        return result.attachments;
+    }
+
+    /**
+     * The attachments of a request, without any notice: what readAttachments
+     * sends and what it skips.
+     */
+    async collectRequestAttachments(request: GenerationRequest, parentFile: TFile, references: ReferenceFile[], settings: GeminiNoteSettings): Promise<AttachmentResult> {
+        if (!this.settings.sendAttachments) return { attachments: [], skipped: [] };
+
+        const sources: EmbedSource[] = [{ text: request.selectedText, sourcePath: parentFile.path }];
+        if (this.settings.backgroundAttachments) {
+            references
+                .filter(ref => request.backgroundFilePaths.includes(ref.path))
+                .forEach(ref => sources.push({ text: ref.content, sourcePath: ref.path }));
+        }
+
+        const result = await collectAttachments(this.app, sources, this.settings.maxAttachmentSizeMb);
+        if (settings.provider === 'openai') {
+            result.attachments = result.attachments.filter(attachment => {
+                if (isSupportedAttachment(attachment.mimeType)) return true;
+                result.skipped.push(`${attachment.name} (not supported by OpenAI-compatible servers)`);
+                return false;
+            });
+        }
+        return result;
+    }
+
+    /**
+     * Applies the model's token budget to the request in place: drops the oldest
+     * scope notes, then trims the parent note to the sections nearest the
+     * selection, and drops background references only if that is not enough.
+     * Returns false if the request cannot fit the budget at all.
+     */
+    private fitContextToBudget(request: GenerationRequest, references: ReferenceFile[], scopeNotes: ReferenceFile[], settings: GeminiNoteSettings, selectionOffset: number): boolean {
+        const budget = getTokenBudget(settings, getProviderConfig(settings).modelName);
+        if (budget <= 0) return true;
+
+        const metaPrompt = request.outputAction === 'create_note' ? settings.createNoteMetaPrompt : settings.inPlaceMetaPrompt;
+        const sendsFullNote = includesFullNote(request.contextType);
+        const result = applyTokenBudget({
+            fixedText: [metaPrompt, request.instructionContent, request.selectedText, request.contextBefore, request.contextAfter, request.sectionContent].join('\n'),
+            parentNoteContent: sendsFullNote ? request.parentNoteContent : "",
+            selectionOffset,
+            references,
+            scopeNotes
+        }, budget);
+
+        if (result.overBudget) {
+            new Notice(`Request is about ${result.totalTokens} tokens, over the ${budget}-token budget for this model even after trimming context. Shorten the selection or instruction, or raise the budget.`);
+            return false;
+        }
+
+        if (sendsFullNote) {
+            request.parentNoteContent = result.parentNoteContent;
+        }
+        const keptReferences = result.references;
+        const keptScopeNotes = result.scopeNotes;
+        request.backgroundContext = keptReferences.map(formatReference).join('');
+        request.backgroundFilePaths = keptReferences.map(ref => ref.path);
+        request.scopeNotesContext = keptScopeNotes.map(formatReference).join('');
+        request.scopeNotePaths = keptScopeNotes.map(note => note.path);
+
+        const trimmed: string[] = [];
+        if (result.droppedReferences.length > 0) {
+            trimmed.push(`dropped ${result.droppedReferences.length} reference(s): ${result.droppedReferences.join(', ')}`);
+        }
+        if (result.parentTrimmed) {
+            trimmed.push("kept only the parent note sections nearest the selection");
+        }
+        if (trimmed.length > 0) {
+            new Notice(`Context trimmed to fit the ${budget}-token budget: ${trimmed.join('; ')}.`, 8000);
+        }
+        return true;
+    }
+
+    /**
+     * Runs a logged generation again. The parent note and background files are
+     * re-read from the vault; the result goes to the original range if it still
+     * holds the original selection, otherwise to the clipboard.
+     */
+    async rerunHistoryEntry(entry: HistoryEntry) {
+        const parentFile = this.app.vault.getAbstractFileByPath(entry.target.filePath);
+        if (!(parentFile instanceof TFile)) {
+            new Notice(`Source note not found: ${entry.target.filePath}`);
+            return;
+        }
+
+        const references = await this.readReferenceFiles(entry.request.backgroundFilePaths);
+        const parentNoteContent = await this.app.vault.read(parentFile);
+        // Scopes are rebuilt from the notes as they are now; older entries have no scope fields
+        const contextType = entry.request.contextType;
+        const scopeNotes = await this.readReferenceFiles(getScopeNoteFiles(this.app, contextType, parentFile).map(file => file.path));
+        const request: GenerationRequest = Object.assign({}, entry.request, {
+            parentNoteContent,
+            sectionContent: contextType === 'selection_and_section' ? getEnclosingSection(parentNoteContent, entry.target.from) : "",
+            scopeNotesContext: scopeNotes.map(formatReference).join(''),
+            scopeNotePaths: scopeNotes.map(note => note.path),
+            backgroundContext: references.map(formatReference).join(''),
+            backgroundFilePaths: references.map(ref => ref.path)
+        });
+        // Same instruction overrides and profile as the original run; older entries have neither
+        const settings = this.getRunSettings(entry.provider, entry.model, entry.outputAction, entry.request.overrides || {}, entry.request.profile || null);
+        if (!this.fitContextToBudget(request, references, scopeNotes, settings, entry.target.from)) {
+            return;
         }
+        request.attachments = await this.readAttachments(request, parentFile, references, settings);
+        const anchorId = this.anchors.create(parentFile.path, entry.target.from, entry.target.to);
+
+        await this.runGeneration(request, parentFile, anchorId, settings);
+    }
+
+    async activateHistoryView(): Promise<HistoryView | null> {
+        const { workspace } = this.app;
+        let leaf = workspace.getLeavesOfType(HISTORY_VIEW_TYPE)[0];
+        if (!leaf) {
+            const rightLeaf = workspace.getRightLeaf(false);
+            if (!rightLeaf) return null;
+            leaf = rightLeaf;
+            await leaf.setViewState({ type: HISTORY_VIEW_TYPE, active: true });
+        }
+        workspace.revealLeaf(leaf);
+        return leaf.view instanceof HistoryView ? leaf.view : null;
+    }
+
+    /**
+     * Plugin settings with the provider, model, profile host and meta prompt of one run.
+     */
+    getRunSettings(provider: ProviderId, modelName: string, outputAction: OutputAction, overrides: InstructionOverrides, profile: ModelProfile | null = null): GeminiNoteSettings {
+        const runSettings = profile
+            ? withModelProfile(this.settings, Object.assign({}, profile, { provider, model: modelName }))
+            : withProviderModel(this.settings, provider, modelName);
+        if (overrides.metaPrompt) {
+            if (outputAction === 'create_note') {
+                runSettings.createNoteMetaPrompt = overrides.metaPrompt;
+            } else {
+                runSettings.inPlaceMetaPrompt = overrides.metaPrompt;
+            }
+        }
+        return runSettings;
+    }
+
+    createService(settings: GeminiNoteSettings): GeminiService {
+        return new GeminiService(
+            createProvider(settings),
+            settings.createNoteMetaPrompt,
+            settings.inPlaceMetaPrompt,
+            settings.nativeJsonMode,
+            settings.jsonRepairRetries
+        );
+    }
+
+    async activateBatchView() {
+        const { workspace } = this.app;
+        let leaf = workspace.getLeavesOfType(BATCH_VIEW_TYPE)[0];
+        if (!leaf) {
+            const rightLeaf = workspace.getRightLeaf(false);
+            if (!rightLeaf) return;
+            leaf = rightLeaf;
+            await leaf.setViewState({ type: BATCH_VIEW_TYPE, active: true });
+        }
+        workspace.revealLeaf(leaf);
     }
 
-    private async handleCreateNoteAction(response: any, request: GenerationRequest, parentFile: TFile, editor: Editor) {
-         const newFile = await this.createNoteFile(response, request, parentFile);
-         if (!newFile) return;
+    async activateChatView() {
+        const { workspace } = this.app;
+        let leaf = workspace.getLeavesOfType(CHAT_VIEW_TYPE)[0];
+        if (!leaf) {
+            const rightLeaf = workspace.getRightLeaf(false);
+            if (!rightLeaf) return;
+            leaf = rightLeaf;
+            await leaf.setViewState({ type: CHAT_VIEW_TYPE, active: true });
+        }
+        workspace.revealLeaf(leaf);
+    }
+
+    /**
+     * Saves text from outside the generation flow (e.g. a chat reply) as a new
+     * note, with the same location, properties and collision handling as
+     * generated notes.
+     */
+    async saveTextAsNote(title: string, content: string, parentFile: TFile, backgroundFilePaths: string[]): Promise<TFile | null> {
+        const request: GenerationRequest = {
+            instructionPath: "",
+            instructionContent: "",
+            contextType: 'selection_and_full_note',
+            saveLocation: this.settings.defaultSaveLocation,
+            selectedText: "",
+            contextBefore: "",
+            contextAfter: "",
+            parentNoteContent: "",
+            parentNoteTitle: parentFile.name,
+            sectionContent: "",
+            scopeNotesContext: "",
+            scopeNotePaths: [],
+            backgroundContext: "",
+            backgroundFilePaths,
+            outputAction: 'create_note'
+        };
+        const response: GenerationResponse = { title, content, isFallback: false, rawText: content };
+
+        const created = await this.createNoteFile(response, request, parentFile, this.settings);
+        if (!created) return null;
+        if (created.outcome === 'appended') {
+            new Notice(`Appended to existing note: ${created.file.basename}`);
+        } else if (created.outcome === 'overwritten') {
+            new Notice(`Overwrote note: ${created.file.basename}`);
+        } else {
+            new Notice(`Saved note: ${created.file.basename}`);
+        }
+        return created.file;
+    }
+
+    private async showProvenance(file: TFile) {
+        const entry = this.history.findByCreatedNote(file.path);
+        if (!entry) {
+            new Notice("No generation history found for this note.");
+            return;
+        }
+        const view = await this.activateHistoryView();
+        view?.showEntry(entry.id);
+    }
+
+    private needsReview(request: GenerationRequest, settings: GeminiNoteSettings): boolean {
+        if (request.outputAction !== 'replace_selection' || !settings.reviewInPlaceEdits) {
+            return false;
+        }
+        const instructionName = request.instructionPath.split('/').pop()?.replace(/\.md$/, '') || '';
+        return !settings.reviewSkipInstructions.some(entry =>
+            entry === request.instructionPath || entry === instructionName
+        );
+    }
+
+    /**
+     * @param historyId History entry of the reviewed generation, updated with the decision
+     */
+    private async applyReviewDecision(decision: ReviewDecision, request: GenerationRequest, parentFile: TFile, anchorId: number, settings: GeminiNoteSettings, historyId: string) {
+        if (decision.action === 'regenerate') {
+            await this.history.setStatus(historyId, 'rejected');
+            // The anchor is handed over to the new run
+            await this.runGeneration(request, parentFile, anchorId, settings);
+            return;
+        }
+
+        try {
+            if (decision.action === 'reject') {
+                await this.history.setStatus(historyId, 'rejected');
+                new Notice("Discarded AI generation.");
+                return;
+            }
+
+            if (!(await this.isAnchorIntact(anchorId, request.selectedText))) {
+                await this.history.setStatus(historyId, 'copied');
+                new Notice("⚠️ Selection changed. Result copied to clipboard.");
+                navigator.clipboard.writeText(decision.text);
+                return;
+            }
+            await this.anchors.replace(anchorId, decision.text);
+            await this.history.setStatus(historyId, 'success');
+            new Notice("Replaced text with AI generation.");
+        } finally {
+            this.anchors.remove(anchorId);
+        }
+    }
+
+    /**
+     * Checks that the tracked range still holds the text that was originally
+     * selected, i.e. the user has not edited inside it in the meantime.
+     */
+    private async isAnchorIntact(anchorId: number, snapshotText: string): Promise<boolean> {
+        return (await this.anchors.getText(anchorId)) === snapshotText;
+    }
+
+    private async handleCreateNoteAction(response: any, request: GenerationRequest, parentFile: TFile, anchorId: number, settings: GeminiNoteSettings): Promise<TFile | null> {
+         const created = await this.createNoteFile(response, request, parentFile, settings);
+         if (!created) return null;
+         const newFile = created.file;
 
          const linkLabel = response.anchorLabel && response.anchorLabel.trim() !== "" 
             ? response.anchorLabel 
             : request.selectedText;
 
          const linkText = `[[${newFile.path}|${linkLabel}]]`;
-         editor.replaceSelection(linkText);
+         await this.anchors.replace(anchorId, linkText);
 
-         if (response.isFallback) {
+         if (created.outcome === 'appended') {
+             new Notice(`Appended to existing note: ${newFile.basename}`);
+         } else if (created.outcome === 'overwritten') {
+             new Notice(`Overwrote note: ${newFile.basename}`);
+         } else if (response.isFallback) {
              new Notice("AI response was unstructured. Created note with a default title.");
          } else {
              new Notice(`Successfully created note: ${newFile.basename}`);
          }
+         return newFile;
     }
 
-    private async createNoteFile(response: any, request: GenerationRequest, parentFile: TFile): Promise<TFile | null> {
+    async createNoteFile(response: any, request: GenerationRequest, parentFile: TFile, settings: GeminiNoteSettings): Promise<CreatedNote | null> {
         let targetFolder = parentFile.parent?.path || "";
         if (request.saveLocation) {
             targetFolder = normalizePath(request.saveLocation);
@@ -213,17 +1041,69 @@ export default class GeminiNotePlugin extends Plugin {
             }
         }
 
-        const safeTitle = response.title.replace(/[\\/:*?"<>|]/g, '').trim();
-        const targetPath = normalizePath(`${targetFolder}/${safeTitle}.md`);
+        const sanitizeTitle = (title: string) => title.replace(/[\\/:*?"<>|]/g, '').trim();
+        const toPath = (title: string) => normalizePath(`${targetFolder}/${sanitizeTitle(title) || 'Untitled'}.md`);
+        let targetPath = toPath(response.title);
+
+        const frontmatter = buildNoteFrontmatter(settings, {
+            response,
+            request,
+            parentFile,
+            modelName: getProviderConfig(settings).modelName
+        });
+        const fullContent = frontmatter + response.content;
 
-        if (this.app.vault.getAbstractFileByPath(targetPath)) {
-            new Notice(`Note '${targetPath}' already exists. Aborting.`);
-            return null;
+        const existing = this.app.vault.getAbstractFileByPath(targetPath);
+        if (!existing) {
+            return { file: await this.app.vault.create(targetPath, fullContent), outcome: 'created' };
         }
 
-        const parentLink = `Generated from: [[${parentFile.path}|${parentFile.basename}]]\n\n---\n\n`;
-        const fullContent = parentLink + response.content;
+        const strategy = request.collisionStrategy || settings.noteCollisionStrategy;
+        switch (strategy) {
+            case 'suffix': {
+                const baseTitle = (targetPath.split('/').pop() || "").replace(/\.md$/, '');
+                let counter = 1;
+                while (this.app.vault.getAbstractFileByPath(toPath(`${baseTitle} ${counter}`))) {
+                    counter++;
+                }
+                targetPath = toPath(`${baseTitle} ${counter}`);
+                return { file: await this.app.vault.create(targetPath, fullContent), outcome: 'created' };
+            }
+            case 'append': {
+                if (!(existing instanceof TFile)) break;
+                const heading = response.anchorLabel && response.anchorLabel.trim() !== "" ? response.anchorLabel.trim() : response.title;
+                await this.app.vault.process(existing, data => `${data.replace(/\s*$/, '')}\n\n## ${heading}\n\n${response.content}\n`);
+                return { file: existing, outcome: 'appended' };
+            }
+            case 'overwrite': {
+                if (!(existing instanceof TFile)) break;
+                const confirmed = await confirmAction(this.app, `Note '${targetPath}' already exists. Overwrite it with the generated content?`, "Overwrite");
+                if (!confirmed) {
+                    new Notice("Kept the existing note. Generated note was not saved.");
+                    return null;
+                }
+                await this.app.vault.modify(existing, fullContent);
+                return { file: existing, outcome: 'overwritten' };
+            }
+            case 'prompt': {
+                let title: string | null = response.title;
+                while (this.app.vault.getAbstractFileByPath(targetPath)) {
+                    title = await promptForText(this.app, `'${toPath(title || "")}' already exists. Enter a new title:`, title || "");
+                    if (title === null || title.trim() === "") {
+                        new Notice("Generated note was not saved.");
+                        return null;
+                    }
+                    if (sanitizeTitle(title) === "") {
+                        new Notice('The title needs at least one character other than \\ / : * ? " < > |.');
+                        continue;
+                    }
+                    targetPath = toPath(title);
+                }
+                return { file: await this.app.vault.create(targetPath, fullContent), outcome: 'created' };
+            }
+        }
 
-        return await this.app.vault.create(targetPath, fullContent);
+        new Notice(`Note '${targetPath}' already exists. Aborting.`);
+        return null;
     }
 }
@@ -1,20 +1,76 @@
-import { App, Modal, Setting, TFile, Notice } from "obsidian";
-import { GeminiNoteSettings, OutputAction } from "./types";
+import { App, Modal, Setting, TFile, Notice, DropdownComponent, TextComponent } from "obsidian";
+import { COLLISION_STRATEGY_LABELS, CONTEXT_TYPE_LABELS, ContextType, GeminiNoteSettings, InstructionOverrides, ModelProfile, NoteCollisionStrategy, OutputAction, ProviderId } from "./types";
+import { addInstructionOptions, listInstructionFiles, readInstruction, writeInstructionFiles } from "./instructions";
+import { STARTER_INSTRUCTIONS } from "./starterInstructions";
+import { createProvider, getProviderConfig, PROVIDER_LABELS, withModelProfile, withProviderModel } from "./providers";
+import { estimateTokens, formatReference, getTokenBudget } from "./tokenBudget";
+import { getEnclosingSection, getScopeNoteFiles, includesFullNote } from "./contextScopes";
+import { describeError } from "./errors";
+
+export interface GenerationConfigResult {
+    instructionPath: string;
+    contextType: ContextType;
+    saveLocation: string;
+    outputAction: OutputAction;
+    collisionStrategy: NoteCollisionStrategy;
+    backgroundFiles: TFile[];
+    provider: ProviderId;
+    modelName: string;
+    profile: ModelProfile | null; // Profile picked for this generation, if any
+    overrides: InstructionOverrides; // Frontmatter overrides of the chosen instruction
+    preview: boolean; // Show the assembled prompt before sending it
+}
+
+export interface BackgroundSuggestion {
+    file: TFile;
+    reason: 'match' | 'link' | 'backlink'; // Index match for the selection, outgoing link or backlink of the parent note
+}
+
+const SUGGESTION_REASON_LABELS: Record<BackgroundSuggestion['reason'], string> = {
+    match: 'related',
+    link: 'linked',
+    backlink: 'backlink'
+};
+
+/**
+ * What the modal knows about the selection it was opened for: used for the
+ * token estimate and the background note suggestions.
+ */
+export interface GenerationModalContext {
+    selectedText: string;
+    selectionOffset: number; // Offset of the selection start in the parent note
+    parentFile: TFile;
+    suggestions: BackgroundSuggestion[];
+}
 
 export class GenerationConfigModal extends Modal {
     private settings: GeminiNoteSettings;
-    private onSubmit: (result: { 
-        instructionPath: string; 
-        contextType: 'selection_only' | 'selection_and_full_note'; 
-        saveLocation: string; 
-        outputAction: OutputAction;
-        backgroundFiles: TFile[];
-    }) => void;
+    private onSubmit: (result: GenerationConfigResult) => void;
     
     private selectedInstructionPath: string = "";
-    private selectedContext: 'selection_only' | 'selection_and_full_note';
+    private selectedContext: ContextType;
     private saveLocation: string;
     private selectedOutputAction: OutputAction;
+    private collisionStrategy: NoteCollisionStrategy;
+    private selectedProvider: ProviderId;
+    private modelName: string;
+    private selectedProfile: ModelProfile | null = null;
+    private instructionOverrides: InstructionOverrides = {};
+    private modalContext: GenerationModalContext | null;
+    private instructionBody: string = "";
+    private fileContents: Map<string, string> = new Map();
+    private tokenEstimateEl: HTMLElement | null = null;
+
+    // Controls that get pre-filled from instruction frontmatter
+    private contextDropdown: DropdownComponent | null = null;
+    private outputActionDropdown: DropdownComponent | null = null;
+    private providerDropdown: DropdownComponent | null = null;
+    private profileDropdown: DropdownComponent | null = null;
+    private modelListEl: HTMLDataListElement | null = null;
+    private saveLocationText: TextComponent | null = null;
+    private modelText: TextComponent | null = null;
+    private saveLocationSettingEl: HTMLElement | null = null;
+    private collisionSettingEl: HTMLElement | null = null;
     
     // Background File Selection State
     private selectedBackgroundFiles: TFile[] = [];
@@ -27,24 +83,30 @@ export class GenerationConfigModal extends Modal {
     constructor(
         app: App, 
         settings: GeminiNoteSettings, 
-        onSubmit: (result: { 
-            instructionPath: string; 
-            contextType: 'selection_only' | 'selection_and_full_note'; 
-            saveLocation: string; 
-            outputAction: OutputAction;
-            backgroundFiles: TFile[];
-        }) => void
+        onSubmit: (result: GenerationConfigResult) => void,
+        modalContext: GenerationModalContext | null = null
     ) {
         super(app);
         this.settings = settings;
         this.onSubmit = onSubmit;
+        this.modalContext = modalContext;
         this.selectedContext = settings.defaultContext;
         this.saveLocation = settings.defaultSaveLocation;
         this.selectedOutputAction = settings.defaultOutputAction;
+        this.collisionStrategy = settings.noteCollisionStrategy;
+        this.selectedProvider = settings.provider;
+        this.modelName = getProviderConfig(settings).modelName;
         this.selectedInstructionPath = "";
         
         // We will fetch files in onOpen to ensure freshness
         this.allMarkdownFiles = [];
+
+        // Enter key support. Added here, since onOpen runs again after the starter set is created
+        this.contentEl.addEventListener("keypress", (e) => {
+            if (e.key === "Enter") {
+                this.submitForm();
+            }
+        });
     }
 
     async onOpen() {
@@ -58,12 +120,17 @@ export class GenerationConfigModal extends Modal {
         contentEl.createEl("h2", { text: "Generate Note with Gemini" });
 
         // --- 1. Instruction Selection ---
-        const instructions = this.getInstructionFiles();
+        const instructions = listInstructionFiles(this.app, this.settings.instructionsFolder);
         if (instructions.length === 0) {
             new Setting(contentEl)
                 .setName("Task Instruction")
                 .setDesc("No instructions found in the configured folder.")
-                .setDisabled(true);
+                .addButton(btn => btn
+                    .setButtonText("Create Starter Set")
+                    .onClick(async () => {
+                        await writeInstructionFiles(this.app, this.settings.instructionsFolder, STARTER_INSTRUCTIONS);
+                        this.onOpen();
+                    }));
         } else {
             if (!this.selectedInstructionPath && instructions.length > 0) {
                 this.selectedInstructionPath = instructions[0].path;
@@ -72,12 +139,11 @@ export class GenerationConfigModal extends Modal {
                 .setName("Task Instruction")
                 .setDesc("Select a template for generation")
                 .addDropdown(dropdown => {
-                    instructions.forEach(file => {
-                        dropdown.addOption(file.path, file.basename);
-                    });
+                    addInstructionOptions(dropdown, instructions, this.settings.instructionsFolder);
                     dropdown.setValue(this.selectedInstructionPath);
                     dropdown.onChange(async (value) => {
                         this.selectedInstructionPath = value;
+                        await this.applyInstructionOverrides(value);
                     });
                 });
         }
@@ -87,12 +153,15 @@ export class GenerationConfigModal extends Modal {
             .setName("Target Context")
             .setDesc("Scope of the active note to send")
             .addDropdown(dropdown => {
-                dropdown.addOption("selection_only", "Selection Only");
-                dropdown.addOption("selection_and_full_note", "Selection + Full Parent Note");
+                (Object.keys(CONTEXT_TYPE_LABELS) as ContextType[]).forEach(type => {
+                    dropdown.addOption(type, CONTEXT_TYPE_LABELS[type]);
+                });
                 dropdown.setValue(this.selectedContext);
                 dropdown.onChange((value) => {
-                    this.selectedContext = value as any;
+                    this.selectedContext = value as ContextType;
+                    this.updateTokenEstimate();
                 });
+                this.contextDropdown = dropdown;
             });
 
         // --- 3. Background Reference Files (Multi-Select) ---
@@ -131,6 +200,46 @@ export class GenerationConfigModal extends Modal {
                     renderSelectedFiles();
                 };
             });
+            renderSuggestions();
+            this.updateTokenEstimate();
+        };
+
+        // Suggested notes: one click adds them to the selected files
+        const suggestionsEl = refContainer.createDiv('suggested-files-list');
+        suggestionsEl.style.marginBottom = '10px';
+        suggestionsEl.style.display = 'flex';
+        suggestionsEl.style.flexWrap = 'wrap';
+        suggestionsEl.style.gap = '5px';
+
+        const renderSuggestions = () => {
+            suggestionsEl.empty();
+            const suggestions = (this.modalContext?.suggestions || [])
+                .filter(suggestion => !this.selectedBackgroundFiles.includes(suggestion.file));
+            if (suggestions.length === 0) {
+                suggestionsEl.style.display = 'none';
+                return;
+            }
+            suggestionsEl.style.display = 'flex';
+            suggestionsEl.createSpan({ text: 'Suggested:' }).style.color = 'var(--text-muted)';
+            suggestions.forEach(suggestion => {
+                const tag = suggestionsEl.createDiv('nav-file-tag');
+                tag.style.display = 'flex';
+                tag.style.alignItems = 'center';
+                tag.style.border = '1px dashed var(--background-modifier-border)';
+                tag.style.padding = '2px 8px';
+                tag.style.borderRadius = '4px';
+                tag.style.fontSize = '0.9em';
+                tag.style.cursor = 'pointer';
+                tag.title = suggestion.file.path;
+
+                tag.createSpan({ text: '+ ' + suggestion.file.basename });
+                const reasonEl = tag.createSpan({ text: ` (${SUGGESTION_REASON_LABELS[suggestion.reason]})` });
+                reasonEl.style.color = 'var(--text-muted)';
+                tag.onclick = () => {
+                    this.selectedBackgroundFiles.push(suggestion.file);
+                    renderSelectedFiles();
+                };
+            });
         };
 
         // Search Input
@@ -195,8 +304,10 @@ export class GenerationConfigModal extends Modal {
                 dropdown.setValue(this.selectedOutputAction);
                 dropdown.onChange((value) => {
                     this.selectedOutputAction = value as OutputAction;
-                    this.updateSaveLocationVisibility(saveLocationSettingEl);
+                    this.updateSaveLocationVisibility();
+                    this.updateTokenEstimate();
                 });
+                this.outputActionDropdown = dropdown;
             });
 
         // --- 5. Save Location ---
@@ -208,13 +319,111 @@ export class GenerationConfigModal extends Modal {
                 text.onChange(value => {
                     this.saveLocation = value;
                 });
+                this.saveLocationText = text;
             });
         
-        const saveLocationSettingEl = saveLocationSetting.settingEl;
-        this.updateSaveLocationVisibility(saveLocationSettingEl);
+        this.saveLocationSettingEl = saveLocationSetting.settingEl;
+
+        // --- 5b. Filename Collision ---
+        const collisionSetting = new Setting(contentEl)
+            .setName("If Note Exists")
+            .setDesc("What to do when a note with the generated title already exists")
+            .addDropdown(dropdown => {
+                (Object.keys(COLLISION_STRATEGY_LABELS) as NoteCollisionStrategy[]).forEach(strategy => {
+                    dropdown.addOption(strategy, COLLISION_STRATEGY_LABELS[strategy]);
+                });
+                dropdown.setValue(this.collisionStrategy);
+                dropdown.onChange((value) => {
+                    this.collisionStrategy = value as NoteCollisionStrategy;
+                });
+            });
+        this.collisionSettingEl = collisionSetting.settingEl;
+        this.updateSaveLocationVisibility();
+
+        // --- 6. Profile, Provider & Model ---
+        if (this.settings.modelProfiles.length > 0) {
+            new Setting(contentEl)
+                .setName("Profile")
+                .setDesc("Model, generation config and host to use; sets the provider and model below")
+                .addDropdown(dropdown => {
+                    dropdown.addOption('', 'None');
+                    this.settings.modelProfiles.forEach((profile, index) => {
+                        dropdown.addOption(String(index), `${profile.name} (${profile.model})`);
+                    });
+                    dropdown.setValue('');
+                    dropdown.onChange((value) => {
+                        this.selectProfile(value === '' ? null : this.settings.modelProfiles[parseInt(value, 10)]);
+                    });
+                    this.profileDropdown = dropdown;
+                });
+        }
+
+        new Setting(contentEl)
+            .setName("Provider")
+            .setDesc("Backend used for this generation")
+            .addDropdown(dropdown => {
+                (Object.keys(PROVIDER_LABELS) as ProviderId[]).forEach(id => {
+                    dropdown.addOption(id, PROVIDER_LABELS[id]);
+                });
+                dropdown.setValue(this.selectedProvider);
+                dropdown.onChange((value) => {
+                    this.selectedProvider = value as ProviderId;
+                    this.modelName = getProviderConfig(this.settings, this.selectedProvider).modelName;
+                    this.modelText?.setValue(this.modelName);
+                    // A profile's host belongs to its own provider
+                    this.selectedProfile = null;
+                    this.profileDropdown?.setValue('');
+                    this.updateModelSuggestions();
+                    this.updateTokenEstimate();
+                });
+                this.providerDropdown = dropdown;
+            });
+
+        new Setting(contentEl)
+            .setName("Model")
+            .setDesc("Model used for this generation")
+            .addText(text => {
+                text.setValue(this.modelName);
+                text.onChange(value => {
+                    this.modelName = value;
+                    this.updateTokenEstimate();
+                });
+                // Suggest the models fetched in the settings
+                this.modelListEl = contentEl.createEl('datalist');
+                this.modelListEl.id = 'gemini-note-model-list';
+                text.inputEl.setAttr('list', this.modelListEl.id);
+                this.modelText = text;
+                this.updateModelSuggestions();
+            });
+
+        // --- 7. Token Estimate ---
+        if (this.modalContext) {
+            const estimateContainer = contentEl.createDiv('token-estimate-container');
+            estimateContainer.style.borderTop = '1px solid var(--background-modifier-border)';
+            estimateContainer.style.marginTop = '15px';
+            estimateContainer.style.paddingTop = '10px';
+            estimateContainer.createEl('h4', { text: 'Estimated Size' });
+            this.tokenEstimateEl = estimateContainer.createDiv('token-estimate');
+            this.tokenEstimateEl.style.fontSize = '0.9em';
+
+            new Setting(estimateContainer)
+                .setDesc("Estimates are local approximations. Ask the provider for an exact count.")
+                .addButton(btn => btn
+                    .setButtonText("Count with API")
+                    .onClick(() => this.countTokensWithApi(btn.buttonEl)));
+        }
+
+        if (this.selectedInstructionPath) {
+            await this.applyInstructionOverrides(this.selectedInstructionPath);
+        } else {
+            this.updateTokenEstimate();
+        }
 
         // --- Actions ---
         new Setting(contentEl)
+            .addButton(btn => btn
+                .setButtonText("Preview Prompt")
+                .onClick(() => this.submitForm(true)))
             .addButton(btn => 
                 btn
                     .setButtonText("Generate")
@@ -223,24 +432,167 @@ export class GenerationConfigModal extends Modal {
                         this.submitForm();
                     })
             );
+    }
 
-        // Enter key support
-        contentEl.addEventListener("keypress", (e) => {
-            if (e.key === "Enter") {
-                this.submitForm();
-            }
-        });
+    /**
+     * Resets the form to the plugin defaults, then applies the frontmatter
+     * overrides of the given instruction file.
+     */
+    private async applyInstructionOverrides(path: string) {
+        const { body, overrides } = await readInstruction(this.app, path);
+        if (path !== this.selectedInstructionPath) return; // Selection changed while reading
+
+        this.instructionBody = body;
+        this.instructionOverrides = overrides;
+        this.selectedContext = overrides.contextType ?? this.settings.defaultContext;
+        this.selectedOutputAction = overrides.outputAction ?? this.settings.defaultOutputAction;
+        this.saveLocation = overrides.saveLocation ?? this.settings.defaultSaveLocation;
+        this.selectedProvider = overrides.provider ?? this.settings.provider;
+        this.modelName = overrides.model ?? getProviderConfig(this.settings, this.selectedProvider).modelName;
+        this.selectedProfile = null;
+
+        this.contextDropdown?.setValue(this.selectedContext);
+        this.outputActionDropdown?.setValue(this.selectedOutputAction);
+        this.saveLocationText?.setValue(this.saveLocation);
+        this.providerDropdown?.setValue(this.selectedProvider);
+        this.profileDropdown?.setValue('');
+        this.modelText?.setValue(this.modelName);
+        this.updateModelSuggestions();
+        this.updateSaveLocationVisibility();
+        this.updateTokenEstimate();
     }
 
-    private updateSaveLocationVisibility(element: HTMLElement) {
-        if (this.selectedOutputAction === 'create_note') {
-            element.style.display = 'flex';
+    private selectProfile(profile: ModelProfile | null) {
+        this.selectedProfile = profile;
+        if (profile) {
+            this.selectedProvider = profile.provider;
+            this.modelName = profile.model;
         } else {
-            element.style.display = 'none';
+            this.selectedProvider = this.instructionOverrides.provider ?? this.settings.provider;
+            this.modelName = this.instructionOverrides.model ?? getProviderConfig(this.settings, this.selectedProvider).modelName;
+        }
+        this.providerDropdown?.setValue(this.selectedProvider);
+        this.modelText?.setValue(this.modelName);
+        this.updateModelSuggestions();
+        this.updateTokenEstimate();
+    }
+
+    private updateModelSuggestions() {
+        const listEl = this.modelListEl;
+        if (!listEl) return;
+        listEl.empty();
+        if (this.selectedProvider !== 'gemini') return;
+        this.settings.availableModels.forEach(model => {
+            listEl.createEl('option', { value: model.name });
+        });
+    }
+
+    /**
+     * Collects the parts of the prompt that the current form would send,
+     * reading (and caching) the parent note and background files.
+     */
+    private async collectPromptParts(): Promise<{ label: string; text: string }[]> {
+        if (!this.modalContext) return [];
+        const { selectedText, selectionOffset, parentFile } = this.modalContext;
+        const metaPrompt = this.instructionOverrides.metaPrompt
+            ?? (this.selectedOutputAction === 'create_note' ? this.settings.createNoteMetaPrompt : this.settings.inPlaceMetaPrompt);
+
+        const parts = [
+            { label: "Meta prompt", text: metaPrompt },
+            { label: "Instruction", text: this.instructionBody },
+            { label: "Selection", text: selectedText }
+        ];
+        if (this.selectedContext === 'selection_and_section') {
+            const section = getEnclosingSection(await this.readCached(parentFile), selectionOffset);
+            parts.push({ label: "Current section", text: section });
+        }
+        if (includesFullNote(this.selectedContext)) {
+            parts.push({ label: `Parent note (${parentFile.basename})`, text: await this.readCached(parentFile) });
+        }
+        for (const file of getScopeNoteFiles(this.app, this.selectedContext, parentFile)) {
+            const content = await this.readCached(file);
+            parts.push({ label: `${file.basename} (scope)`, text: formatReference({ path: file.path, content }) });
+        }
+        for (const file of this.selectedBackgroundFiles) {
+            const content = await this.readCached(file);
+            parts.push({ label: file.basename, text: formatReference({ path: file.path, content }) });
+        }
+        return parts;
+    }
+
+    private async readCached(file: TFile): Promise<string> {
+        let content = this.fileContents.get(file.path);
+        if (content === undefined) {
+            content = await this.app.vault.cachedRead(file);
+            this.fileContents.set(file.path, content);
+        }
+        return content;
+    }
+
+    private async updateTokenEstimate() {
+        const el = this.tokenEstimateEl;
+        if (!el) return;
+        const parts = await this.collectPromptParts();
+
+        el.empty();
+        let total = 0;
+        parts.forEach(part => {
+            const tokens = estimateTokens(part.text);
+            total += tokens;
+            const row = el.createDiv();
+            row.style.display = 'flex';
+            row.style.justifyContent = 'space-between';
+            row.style.color = 'var(--text-muted)';
+            row.createSpan({ text: part.label });
+            row.createSpan({ text: `~${tokens}` });
+        });
+
+        const budget = getTokenBudget(this.settings, this.modelName.trim() || getProviderConfig(this.settings, this.selectedProvider).modelName);
+        const totalRow = el.createDiv();
+        totalRow.style.display = 'flex';
+        totalRow.style.justifyContent = 'space-between';
+        totalRow.style.fontWeight = 'bold';
+        totalRow.style.marginTop = '5px';
+        totalRow.createSpan({ text: "Total" });
+        totalRow.createSpan({ text: budget > 0 ? `~${total} / ${budget}` : `~${total}` });
+
+        if (budget > 0 && total > budget) {
+            totalRow.style.color = 'var(--text-error)';
+            el.createEl('small', { text: "Over budget: the oldest references will be dropped and the parent note trimmed to the sections nearest the selection." });
         }
     }
 
-    private submitForm() {
+    private async countTokensWithApi(button: HTMLButtonElement) {
+        const modelName = this.modelName.trim() || getProviderConfig(this.settings, this.selectedProvider).modelName;
+        const provider = createProvider(this.selectedProfile
+            ? withModelProfile(this.settings, Object.assign({}, this.selectedProfile, { provider: this.selectedProvider, model: modelName }))
+            : withProviderModel(this.settings, this.selectedProvider, modelName));
+        if (!provider.countTokens) {
+            new Notice(`${PROVIDER_LABELS[this.selectedProvider]} does not support token counting.`);
+            return;
+        }
+
+        button.disabled = true;
+        try {
+            const parts = await this.collectPromptParts();
+            const count = await provider.countTokens(parts.map(part => part.text).join('\n'));
+            new Notice(`${modelName}: ${count} tokens`);
+        } catch (error) {
+            console.error("Token count failed:", error);
+            new Notice(`Token count failed: ${describeError(error)}`);
+        } finally {
+            button.disabled = false;
+        }
+    }
+
+    private updateSaveLocationVisibility() {
+        const display = this.selectedOutputAction === 'create_note' ? 'flex' : 'none';
+        [this.saveLocationSettingEl, this.collisionSettingEl].forEach(element => {
+            if (element) element.style.display = display;
+        });
+    }
+
+    private submitForm(preview = false) {
         if (!this.selectedInstructionPath) {
             new Notice("Please select a task instruction.");
             return;
@@ -251,21 +603,16 @@ export class GenerationConfigModal extends Modal {
             contextType: this.selectedContext,
             saveLocation: this.saveLocation,
             outputAction: this.selectedOutputAction,
-            backgroundFiles: this.selectedBackgroundFiles
+            collisionStrategy: this.collisionStrategy,
+            backgroundFiles: this.selectedBackgroundFiles,
+            provider: this.selectedProvider,
+            modelName: this.modelName.trim() || getProviderConfig(this.settings, this.selectedProvider).modelName,
+            profile: this.selectedProfile,
+            overrides: this.instructionOverrides,
+            preview
         });
     }
 
-    private getInstructionFiles(): TFile[] {
-        const folder = this.app.vault.getAbstractFileByPath(this.settings.instructionsFolder);
-        if (!folder) return [];
-        // @ts-ignore
-        if (folder.children) {
-             // @ts-ignore
-            return folder.children.filter(f => f instanceof TFile && f.extension === 'md');
-        }
-        return [];
-    }
-
     onClose() {
         const { contentEl } = this;
         contentEl.empty();
@@ -0,0 +1,61 @@
+import { TFile, moment, parseYaml, stringifyYaml } from "obsidian";
+import { GeminiNoteSettings, GenerationRequest, GenerationResponse } from "./types";
+
+export interface NotePropertiesInput {
+    response: GenerationResponse;
+    request: GenerationRequest;
+    parentFile: TFile;
+    modelName: string;
+}
+
+/**
+ * Builds the YAML frontmatter block for a created note, following the
+ * property names configured in the settings.
+ */
+export function buildNoteFrontmatter(settings: GeminiNoteSettings, input: NotePropertiesInput): string {
+    const names = settings.generatedNoteProperties;
+    const properties: Record<string, any> = parseExtraProperties(settings.extraNoteProperties);
+
+    const set = (name: string, value: any) => {
+        if (!name || value === undefined || value === null || value === '') return;
+        if (Array.isArray(value) && value.length === 0) return;
+        // Lists (e.g. tags) are merged with static values of the same property
+        if (Array.isArray(value) && properties[name] !== undefined) {
+            const existing = Array.isArray(properties[name]) ? properties[name] : [properties[name]];
+            value = existing.concat(value.filter((item: any) => !existing.includes(item)));
+        }
+        properties[name] = value;
+    };
+
+    const { response, request, parentFile } = input;
+    set(names.source, toWikilink(parentFile.path));
+    set(names.instruction, request.instructionPath ? toWikilink(request.instructionPath) : undefined);
+    set(names.model, input.modelName);
+    set(names.created, (moment as any)().format(settings.createdDateFormat || 'YYYY-MM-DDTHH:mm:ss'));
+    set(names.references, request.backgroundFilePaths.map(toWikilink));
+    set(names.tags, (response.tags || []).map(toTag).filter(tag => tag.length > 0));
+    set(names.aliases, response.aliases);
+
+    if (Object.keys(properties).length === 0) return "";
+    return `---\n${stringifyYaml(properties)}---\n\n`;
+}
+
+function parseExtraProperties(yaml: string): Record<string, any> {
+    if (!yaml || !yaml.trim()) return {};
+    try {
+        const parsed = parseYaml(yaml);
+        return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+    } catch (e) {
+        console.warn("Invalid additional note properties YAML:", e);
+        return {};
+    }
+}
+
+function toWikilink(path: string): string {
+    const basename = path.split('/').pop()?.replace(/\.md$/, '') || path;
+    return `[[${path.replace(/\.md$/, '')}|${basename}]]`;
+}
+
+function toTag(tag: string): string {
+    return tag.trim().replace(/^#+/, '').replace(/\s+/g, '-');
+}
@@ -0,0 +1,159 @@
+import { requestUrl } from "obsidian";
+import { LLMProvider, ProviderGenerateOptions } from "./types";
+import { fetchForStream, readSseStream } from "./sse";
+import { abortable, classifyHttpError, ProviderError, toProviderError } from "./errors";
+
+/**
+ * Any server implementing the OpenAI chat-completions API
+ * (llama.cpp, Ollama, vLLM, LM Studio, OpenAI itself, ...).
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+    readonly id = 'openai';
+    private apiKey: string;
+    private apiHost: string;
+    readonly modelName: string;
+
+    constructor(apiKey: string, apiHost: string, modelName: string) {
+        this.apiKey = apiKey;
+        this.apiHost = apiHost;
+        this.modelName = modelName;
+    }
+
+    async generate(prompt: string, options: ProviderGenerateOptions = {}): Promise<string> {
+        const url = `${this.getBaseUrl()}/chat/completions`;
+        const body = this.buildBody(prompt, options, false);
+
+        try {
+            // requestUrl cannot be aborted; a cancelled request stops waiting for it
+            const response = await abortable(requestUrl({
+                url: url,
+                method: 'POST',
+                headers: this.buildHeaders(),
+                body: JSON.stringify(body),
+                throw: false
+            }), options.signal);
+
+            if (response.status >= 400) {
+                throw classifyHttpError(response.status, response.text);
+            }
+
+            const choice = response.json.choices?.[0];
+            const text = choice?.message?.content;
+            if (!text) throw emptyResponseError(choice?.finish_reason);
+            return text;
+
+        } catch (error) {
+            console.error("OpenAI-compatible API Error:", error);
+            throw toProviderError(error);
+        }
+    }
+
+    async stream(prompt: string, onChunk: (chunk: string) => void, options: ProviderGenerateOptions = {}): Promise<string> {
+        const url = `${this.getBaseUrl()}/chat/completions`;
+        const body = this.buildBody(prompt, options, true);
+
+        try {
+            const response = await fetchForStream(url, {
+                method: 'POST',
+                headers: this.buildHeaders(),
+                body: JSON.stringify(body),
+                signal: options.signal
+            });
+            if (!response) {
+                const text = await this.generate(prompt, options);
+                onChunk(text);
+                return text;
+            }
+
+            if (!response.ok) {
+                throw classifyHttpError(response.status, await response.text());
+            }
+
+            let fullText = "";
+            let finishReason: string | undefined;
+            await readSseStream(response, (data) => {
+                const parsed = JSON.parse(data);
+                finishReason = parsed.choices?.[0]?.finish_reason || finishReason;
+                const text = parsed.choices?.[0]?.delta?.content || "";
+                if (text) {
+                    fullText += text;
+                    onChunk(text);
+                }
+            });
+
+            if (!fullText) throw emptyResponseError(finishReason);
+            return fullText;
+
+        } catch (error) {
+            console.error("OpenAI-compatible API Stream Error:", error);
+            throw toProviderError(error);
+        }
+    }
+
+    private getBaseUrl(): string {
+        let host = this.apiHost.trim();
+        if (!host) {
+            throw new Error("OpenAI-compatible host not set");
+        }
+        if (host.endsWith("/")) {
+            host = host.slice(0, -1);
+        }
+        return host;
+    }
+
+    private buildHeaders(): Record<string, string> {
+        const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+        // Local servers usually run without a key
+        if (this.apiKey) {
+            headers['Authorization'] = `Bearer ${this.apiKey}`;
+        }
+        return headers;
+    }
+
+    /**
+     * Plain text, or text plus image parts when there are image attachments.
+     * Callers drop (and report) the attachments this format cannot carry.
+     */
+    private buildContent(prompt: string, options: ProviderGenerateOptions): any {
+        const images = (options.attachments || []).filter(attachment => isSupportedAttachment(attachment.mimeType));
+        if (images.length === 0) return prompt;
+        return [{ type: 'text', text: prompt }].concat(images.map(image => ({
+            type: 'image_url',
+            image_url: { url: `data:${image.mimeType};base64,${image.data}` }
+        })) as any[]);
+    }
+
+    private buildBody(prompt: string, options: ProviderGenerateOptions, stream: boolean): any {
+        const body: any = {
+            model: this.modelName,
+            messages: [{ role: 'user', content: this.buildContent(prompt, options) }],
+            stream
+        };
+        if (options.temperature !== undefined) {
+            body.temperature = options.temperature;
+        }
+        if (options.maxOutputTokens !== undefined) {
+            body.max_tokens = options.maxOutputTokens;
+        }
+        // json_object is the most widely supported form among local servers
+        if (options.jsonSchema) {
+            body.response_format = { type: 'json_object' };
+        }
+        return body;
+    }
+}
+
+/**
+ * Whether an attachment can be sent to a chat-completions server. The format
+ * has no general file part, so only images are.
+ */
+export function isSupportedAttachment(mimeType: string): boolean {
+    return mimeType.startsWith('image/');
+}
+
+function emptyResponseError(finishReason: string | undefined): ProviderError {
+    if (finishReason === 'content_filter') {
+        return new ProviderError('safety', "Response blocked (content_filter)");
+    }
+    return new ProviderError('unknown', finishReason ? `Empty response from API (finish reason: ${finishReason})` : "Empty response from API");
+}
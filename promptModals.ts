@@ -0,0 +1,159 @@
+import { App, FuzzySuggestModal, Modal, Setting, TFile } from "obsidian";
+
+/**
+ * Yes/no confirmation. Closing the modal counts as "no".
+ */
+export class ConfirmModal extends Modal {
+    private message: string;
+    private confirmText: string;
+    private onResult: (confirmed: boolean) => void;
+    private resolved = false;
+
+    // Explicitly declare properties
+    contentEl: HTMLElement;
+    app: App;
+
+    constructor(app: App, message: string, confirmText: string, onResult: (confirmed: boolean) => void) {
+        super(app);
+        this.message = message;
+        this.confirmText = confirmText;
+        this.onResult = onResult;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.createEl("p", { text: this.message });
+
+        new Setting(contentEl)
+            .addButton(btn => btn
+                .setButtonText("Cancel")
+                .onClick(() => this.resolve(false)))
+            .addButton(btn => btn
+                .setButtonText(this.confirmText)
+                .setWarning()
+                .onClick(() => this.resolve(true)));
+    }
+
+    private resolve(confirmed: boolean) {
+        this.resolved = true;
+        (this as any).close();
+        this.onResult(confirmed);
+    }
+
+    onClose() {
+        this.contentEl.empty();
+        if (!this.resolved) {
+            this.resolved = true;
+            this.onResult(false);
+        }
+    }
+}
+
+/**
+ * Single-line text prompt. Closing the modal resolves to null.
+ */
+export class TextPromptModal extends Modal {
+    private heading: string;
+    private value: string;
+    private onResult: (value: string | null) => void;
+    private resolved = false;
+
+    // Explicitly declare properties
+    contentEl: HTMLElement;
+    app: App;
+
+    constructor(app: App, heading: string, initialValue: string, onResult: (value: string | null) => void) {
+        super(app);
+        this.heading = heading;
+        this.value = initialValue;
+        this.onResult = onResult;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.createEl("h3", { text: this.heading });
+
+        new Setting(contentEl)
+            .addText(text => {
+                text.setValue(this.value);
+                text.onChange(value => {
+                    this.value = value;
+                });
+                text.inputEl.style.width = '100%';
+                text.inputEl.addEventListener("keydown", (e) => {
+                    if (e.key === "Enter") {
+                        e.preventDefault();
+                        this.resolve(this.value);
+                    }
+                });
+                window.setTimeout(() => text.inputEl.focus(), 0);
+            });
+
+        new Setting(contentEl)
+            .addButton(btn => btn
+                .setButtonText("Cancel")
+                .onClick(() => this.resolve(null)))
+            .addButton(btn => btn
+                .setButtonText("OK")
+                .setCta()
+                .onClick(() => this.resolve(this.value)));
+    }
+
+    private resolve(value: string | null) {
+        this.resolved = true;
+        (this as any).close();
+        this.onResult(value);
+    }
+
+    onClose() {
+        this.contentEl.empty();
+        if (!this.resolved) {
+            this.resolved = true;
+            this.onResult(null);
+        }
+    }
+}
+
+/**
+ * Fuzzy picker over the vault's markdown notes.
+ */
+export class NoteSuggestModal extends FuzzySuggestModal<TFile> {
+    private exclude: TFile[];
+    private onChoose: (file: TFile) => void;
+
+    // Explicitly declare properties
+    app: App;
+
+    constructor(app: App, exclude: TFile[], onChoose: (file: TFile) => void) {
+        super(app);
+        this.exclude = exclude;
+        this.onChoose = onChoose;
+        (this as any).setPlaceholder("Search vault notes...");
+    }
+
+    getItems(): TFile[] {
+        return this.app.vault.getMarkdownFiles().filter(file => !this.exclude.includes(file));
+    }
+
+    getItemText(file: TFile): string {
+        return file.path;
+    }
+
+    onChooseItem(file: TFile) {
+        this.onChoose(file);
+    }
+}
+
+export function confirmAction(app: App, message: string, confirmText: string): Promise<boolean> {
+    return new Promise(resolve => {
+        (new ConfirmModal(app, message, confirmText, resolve) as any).open();
+    });
+}
+
+export function promptForText(app: App, heading: string, initialValue: string): Promise<string | null> {
+    return new Promise(resolve => {
+        (new TextPromptModal(app, heading, initialValue, resolve) as any).open();
+    });
+}
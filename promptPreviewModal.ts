@@ -0,0 +1,130 @@
+import { App, Modal, Notice, Setting } from "obsidian";
+import { estimateTokens } from "./tokenBudget";
+
+export interface PromptPreviewFile {
+    path: string;
+    kind: 'background' | 'scope' | 'attachment';
+    size: number; // Characters for notes, bytes for attachments
+}
+
+/**
+ * Null when the preview was cancelled, otherwise the prompt to send, or
+ * undefined if it was sent unedited.
+ */
+export type PromptPreviewDecision = { prompt?: string } | null;
+
+const FILE_KIND_LABELS: Record<PromptPreviewFile['kind'], string> = {
+    background: 'background',
+    scope: 'context scope',
+    attachment: 'attachment'
+};
+
+function formatSize(file: PromptPreviewFile): string {
+    if (file.kind !== 'attachment') {
+        return `${file.size.toLocaleString()} chars`;
+    }
+    return file.size < 1024 * 1024
+        ? `${Math.max(1, Math.round(file.size / 1024))} KB`
+        : `${(file.size / 1024 / 1024).toFixed(1)} MB`;
+}
+
+/**
+ * Shows the fully assembled prompt of a generation before it is sent: meta
+ * prompt, instruction, payload or context sections, and the files that went
+ * into it. The prompt can be copied, or edited and then sent.
+ */
+export class PromptPreviewModal extends Modal {
+    private prompt: string;
+    private files: PromptPreviewFile[];
+    private model: string;
+    private onDecision: (decision: PromptPreviewDecision) => void;
+    private decided = false;
+
+    // Explicitly declare properties
+    contentEl: HTMLElement;
+    app: App;
+
+    /**
+     * @param model Provider and model the prompt would be sent to, for display
+     */
+    constructor(app: App, prompt: string, files: PromptPreviewFile[], model: string, onDecision: (decision: PromptPreviewDecision) => void) {
+        super(app);
+        this.prompt = prompt;
+        this.files = files;
+        this.model = model;
+        this.onDecision = onDecision;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.createEl("h2", { text: "Prompt Preview" });
+
+        const summaryEl = contentEl.createDiv();
+        summaryEl.style.color = 'var(--text-muted)';
+        summaryEl.style.fontSize = '0.9em';
+        summaryEl.style.marginBottom = '10px';
+
+        // --- Files ---
+        if (this.files.length > 0) {
+            contentEl.createEl('h4', { text: 'Files' });
+            const listEl = contentEl.createEl('ul');
+            listEl.style.fontSize = '0.9em';
+            listEl.style.maxHeight = '120px';
+            listEl.style.overflowY = 'auto';
+            this.files.forEach(file => {
+                listEl.createEl('li', { text: `${file.path} (${FILE_KIND_LABELS[file.kind]}, ${formatSize(file)})` });
+            });
+        }
+
+        // --- Prompt ---
+        const promptInput = contentEl.createEl('textarea');
+        promptInput.value = this.prompt;
+        promptInput.style.width = '100%';
+        promptInput.style.height = '45vh';
+        promptInput.style.fontFamily = 'monospace';
+        promptInput.style.fontSize = '0.85em';
+
+        const updateSummary = () => {
+            const text = promptInput.value;
+            const edited = text !== this.prompt ? ' · edited' : '';
+            summaryEl.setText(`${this.model} · ${text.length.toLocaleString()} chars · ~${estimateTokens(text).toLocaleString()} tokens${edited}`);
+        };
+        promptInput.addEventListener('input', updateSummary);
+        updateSummary();
+
+        // --- Actions ---
+        new Setting(contentEl)
+            .addButton(btn => btn
+                .setButtonText("Copy")
+                .onClick(() => {
+                    navigator.clipboard.writeText(promptInput.value);
+                    new Notice("Prompt copied to clipboard.");
+                }))
+            .addButton(btn => btn
+                .setButtonText("Cancel")
+                .onClick(() => this.decide(null)))
+            .addButton(btn => btn
+                .setButtonText("Send")
+                .setCta()
+                .onClick(() => this.decide(
+                    promptInput.value !== this.prompt ? { prompt: promptInput.value } : {}
+                )));
+    }
+
+    private decide(decision: PromptPreviewDecision) {
+        this.decided = true;
+        (this as any).close();
+        this.onDecision(decision);
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+        // Dismissing the preview sends nothing
+        if (!this.decided) {
+            this.decided = true;
+            this.onDecision(null);
+        }
+    }
+}
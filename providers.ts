@@ -0,0 +1,112 @@
+import { GeminiNoteSettings, LLMProvider, ModelInfo, ModelProfile, ProviderId } from "./types";
+import { GeminiProvider } from "./geminiProvider";
+import { OpenAICompatibleProvider } from "./openAiProvider";
+import { ResilientProvider } from "./resilientProvider";
+import { validateHostUrl } from "./hostUrl";
+
+export const PROVIDER_LABELS: Record<ProviderId, string> = {
+    gemini: 'Google Gemini',
+    openai: 'OpenAI-compatible (llama.cpp, Ollama, vLLM)'
+};
+
+export interface ProviderConfig {
+    apiKey: string;
+    apiHost: string;
+    modelName: string;
+}
+
+/**
+ * Returns the host, key and model configured for a provider.
+ */
+export function getProviderConfig(settings: GeminiNoteSettings, id: ProviderId = settings.provider): ProviderConfig {
+    if (id === 'openai') {
+        return {
+            apiKey: settings.openAiApiKey,
+            apiHost: settings.openAiHost,
+            modelName: settings.openAiModelName
+        };
+    }
+    return {
+        apiKey: settings.apiKey,
+        apiHost: settings.apiHost,
+        modelName: settings.modelName
+    };
+}
+
+/**
+ * Returns a copy of the settings with the model of the given provider replaced.
+ */
+export function withProviderModel(settings: GeminiNoteSettings, id: ProviderId, modelName: string): GeminiNoteSettings {
+    const copy: GeminiNoteSettings = Object.assign({}, settings, { provider: id });
+    if (id === 'openai') {
+        copy.openAiModelName = modelName;
+    } else {
+        copy.modelName = modelName;
+    }
+    return copy;
+}
+
+/**
+ * Returns a copy of the settings switched to the profile's provider and
+ * model, and to its host when it has one.
+ */
+export function withModelProfile(settings: GeminiNoteSettings, profile: ModelProfile): GeminiNoteSettings {
+    const copy = withProviderModel(settings, profile.provider, profile.model);
+    if (profile.apiHost.trim()) {
+        if (profile.provider === 'openai') {
+            copy.openAiHost = profile.apiHost.trim();
+        } else {
+            copy.apiHost = profile.apiHost.trim();
+        }
+    }
+    return copy;
+}
+
+/**
+ * Dropdown label of a listed model, with its context limits.
+ */
+export function describeModel(model: ModelInfo): string {
+    const limits: string[] = [];
+    if (model.inputTokenLimit) limits.push(`${model.inputTokenLimit.toLocaleString()} in`);
+    if (model.outputTokenLimit) limits.push(`${model.outputTokenLimit.toLocaleString()} out`);
+    return limits.length > 0 ? `${model.name} (${limits.join(' / ')})` : model.name;
+}
+
+/**
+ * Returns a user-facing message if the provider cannot be used as configured.
+ */
+export function getProviderConfigError(settings: GeminiNoteSettings, id: ProviderId = settings.provider): string | null {
+    const config = getProviderConfig(settings, id);
+    if (id === 'openai') {
+        if (!config.apiHost.trim()) return "OpenAI-compatible host is not set. Please configure it in the plugin settings.";
+        const hostError = validateHostUrl(config.apiHost);
+        if (hostError) return `OpenAI-compatible host: ${hostError}`;
+        if (!config.modelName.trim()) return "OpenAI-compatible model is not set. Please configure it in the plugin settings.";
+        return null;
+    }
+    if (!config.apiKey) return "Gemini API key is not set. Please configure it in the plugin settings.";
+    if (config.apiHost.trim()) {
+        const hostError = validateHostUrl(config.apiHost, true);
+        if (hostError) return `Gemini API host: ${hostError}`;
+    }
+    if (!settings.apiVersion.trim()) return "Gemini API version is not set. Please configure it in the plugin settings.";
+    return null;
+}
+
+/**
+ * Creates the provider with the configured timeout and retry policy applied.
+ */
+export function createProvider(settings: GeminiNoteSettings, id: ProviderId = settings.provider): LLMProvider {
+    const config = getProviderConfig(settings, id);
+    const provider: LLMProvider = id === 'openai'
+        ? new OpenAICompatibleProvider(config.apiKey, config.apiHost, config.modelName)
+        : new GeminiProvider(config.apiKey, config.apiHost, config.modelName, {
+            apiVersion: settings.apiVersion.trim(),
+            keyInQuery: settings.apiKeyInQuery,
+            headers: settings.customHeaders
+        });
+    return new ResilientProvider(provider, {
+        maxRetries: settings.maxRetries,
+        timeoutMs: settings.requestTimeoutSeconds * 1000
+    });
+}
@@ -0,0 +1,199 @@
+import { App, Editor, MarkdownView, TAbstractFile, TFile, editorInfoField } from "obsidian";
+import { Extension } from "@codemirror/state";
+import { EditorView } from "@codemirror/view";
+
+interface RangeAnchor {
+    id: number;
+    filePath: string;
+    from: number;
+    to: number;
+    view: EditorView | null; // The editor whose changes are mapped into this anchor
+}
+
+/**
+ * Tracks text ranges in notes through later edits, so generation results land
+ * where the selection was even after the user typed above it, switched notes,
+ * or another generation changed the same note.
+ *
+ * Ranges are character offsets mapped through every change of the editor that
+ * shows the note. When no editor shows the note, edits go through the vault.
+ */
+export class RangeAnchorManager {
+    private app: App;
+    private anchors = new Map<number, RangeAnchor>();
+    private nextId = 1;
+    private suppressedId: number | null = null; // Anchor currently being edited by us
+
+    constructor(app: App) {
+        this.app = app;
+    }
+
+    /**
+     * Editor extension that maps all anchors through document changes.
+     * Register it with `registerEditorExtension`.
+     */
+    extension(): Extension {
+        return EditorView.updateListener.of(update => {
+            if (!update.docChanged || this.anchors.size === 0) return;
+            const file = update.state.field(editorInfoField, false)?.file;
+            if (!file) return;
+
+            this.anchors.forEach(anchor => {
+                if (anchor.filePath !== file.path || anchor.id === this.suppressedId) return;
+
+                // Split panes on the same note receive the same change; map it only once
+                if (!this.viewShowsFile(anchor.view, anchor.filePath)) {
+                    anchor.view = update.view;
+                }
+                if (anchor.view !== update.view) return;
+
+                anchor.from = update.changes.mapPos(anchor.from, 1);
+                anchor.to = Math.max(anchor.from, update.changes.mapPos(anchor.to, -1));
+            });
+        });
+    }
+
+    /**
+     * Starts tracking the current selection of an editor.
+     */
+    createFromSelection(editor: Editor, file: TFile): number {
+        const from = editor.posToOffset(editor.getCursor('from'));
+        const to = editor.posToOffset(editor.getCursor('to'));
+        const view: EditorView | null = (editor as any).cm ?? null;
+
+        const id = this.nextId++;
+        this.anchors.set(id, { id, filePath: file.path, from, to, view });
+        return id;
+    }
+
+    /**
+     * Starts tracking a range given as offsets into a note.
+     */
+    create(filePath: string, from: number, to: number): number {
+        const id = this.nextId++;
+        this.anchors.set(id, { id, filePath, from, to, view: null });
+        return id;
+    }
+
+    /**
+     * Keeps anchors attached to a note after it is renamed.
+     */
+    handleRename(file: TAbstractFile, oldPath: string) {
+        this.anchors.forEach(anchor => {
+            if (anchor.filePath === oldPath) anchor.filePath = file.path;
+        });
+    }
+
+    remove(id: number) {
+        this.anchors.delete(id);
+    }
+
+    getFilePath(id: number): string | null {
+        return this.anchors.get(id)?.filePath ?? null;
+    }
+
+    getRange(id: number): { from: number; to: number } | null {
+        const anchor = this.anchors.get(id);
+        return anchor ? { from: anchor.from, to: anchor.to } : null;
+    }
+
+    /**
+     * Returns the text currently inside the anchored range, or null if the
+     * anchor or its note is gone.
+     */
+    async getText(id: number): Promise<string | null> {
+        const anchor = this.anchors.get(id);
+        if (!anchor) return null;
+
+        const editor = this.findEditor(anchor);
+        if (editor) {
+            return editor.getValue().slice(anchor.from, anchor.to);
+        }
+        const file = this.app.vault.getAbstractFileByPath(anchor.filePath);
+        if (!(file instanceof TFile)) return null;
+        const content = await this.app.vault.read(file);
+        return content.slice(anchor.from, anchor.to);
+    }
+
+    /**
+     * Replaces the anchored range with `text`; the anchor then covers the new text.
+     */
+    async replace(id: number, text: string): Promise<boolean> {
+        const anchor = this.anchors.get(id);
+        if (!anchor) return false;
+        const written = await this.write(anchor, anchor.from, anchor.to, text);
+        if (!written) return false;
+
+        anchor.to = anchor.from + text.length;
+        return true;
+    }
+
+    /**
+     * Inserts `text` at the end of the anchored range and extends the range over it.
+     */
+    async append(id: number, text: string): Promise<boolean> {
+        const anchor = this.anchors.get(id);
+        if (!anchor) return false;
+        const written = await this.write(anchor, anchor.to, anchor.to, text);
+        if (!written) return false;
+
+        anchor.to += text.length;
+        return true;
+    }
+
+    /**
+     * Shrinks the anchored range to an empty range at its end.
+     */
+    collapseToEnd(id: number) {
+        const anchor = this.anchors.get(id);
+        if (anchor) anchor.from = anchor.to;
+    }
+
+    private async write(anchor: RangeAnchor, from: number, to: number, text: string): Promise<boolean> {
+        const editor = this.findEditor(anchor);
+        if (editor) {
+            this.suppressedId = anchor.id;
+            try {
+                editor.replaceRange(text, editor.offsetToPos(from), editor.offsetToPos(to));
+            } finally {
+                this.suppressedId = null;
+            }
+            return true;
+        }
+
+        const file = this.app.vault.getAbstractFileByPath(anchor.filePath);
+        if (!(file instanceof TFile)) return false;
+        await this.app.vault.process(file, data => data.slice(0, from) + text + data.slice(to));
+
+        // No editor maps this change, so shift the other anchors of the note by hand
+        const delta = text.length - (to - from);
+        this.anchors.forEach(other => {
+            if (other === anchor || other.filePath !== anchor.filePath) return;
+            if (other.from >= to) other.from += delta;
+            if (other.to >= to) other.to += delta;
+        });
+        return true;
+    }
+
+    private findEditor(anchor: RangeAnchor): Editor | null {
+        if (anchor.view && this.viewShowsFile(anchor.view, anchor.filePath)) {
+            const editor = anchor.view.state.field(editorInfoField, false)?.editor;
+            if (editor) return editor;
+        }
+
+        let found: Editor | null = null;
+        this.app.workspace.getLeavesOfType('markdown').forEach(leaf => {
+            const view = leaf.view;
+            if (!found && view instanceof MarkdownView && view.file?.path === anchor.filePath) {
+                found = view.editor;
+                anchor.view = (view.editor as any).cm ?? null;
+            }
+        });
+        return found;
+    }
+
+    private viewShowsFile(view: EditorView | null, filePath: string): boolean {
+        if (!view || !view.dom.isConnected) return false;
+        return view.state.field(editorInfoField, false)?.file?.path === filePath;
+    }
+}
@@ -0,0 +1,115 @@
+import { LLMProvider, ModelInfo, ProviderGenerateOptions, ProviderId } from "./types";
+import { abortable, cancelledError, ProviderError, toProviderError } from "./errors";
+
+export interface RetryPolicy {
+    maxRetries: number; // Extra attempts after the first one
+    timeoutMs: number; // Longest wait for the response (or, when streaming, the next chunk); 0 for none
+}
+
+// First retry waits about this long; each further retry doubles it
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 30000;
+
+/**
+ * Wraps a provider with a timeout and automatic retries, with exponential
+ * backoff, for retryable errors (rate limits, timeouts, network and server
+ * errors). A stream is only retried while none of it has been passed on.
+ * A cancelled request is never retried, and cancelling skips any pending backoff.
+ */
+export class ResilientProvider implements LLMProvider {
+    readonly id: ProviderId;
+    readonly modelName: string;
+    readonly countTokens?: (text: string) => Promise<number>;
+    readonly listModels?: () => Promise<ModelInfo[]>;
+    private inner: LLMProvider;
+    private policy: RetryPolicy;
+
+    constructor(inner: LLMProvider, policy: RetryPolicy) {
+        this.inner = inner;
+        this.policy = policy;
+        this.id = inner.id;
+        this.modelName = inner.modelName;
+        if (inner.countTokens) {
+            const countTokens = inner.countTokens.bind(inner);
+            this.countTokens = (text: string) => this.withRetry(() => this.withTimeout(() => countTokens(text)), () => true);
+        }
+        if (inner.listModels) {
+            const listModels = inner.listModels.bind(inner);
+            this.listModels = () => this.withRetry(() => this.withTimeout(() => listModels()), () => true);
+        }
+    }
+
+    generate(prompt: string, options?: ProviderGenerateOptions): Promise<string> {
+        return this.withRetry(() => this.withTimeout((touch, signal) => this.inner.generate(prompt, Object.assign({}, options, { signal })), options?.signal), () => true, options?.signal);
+    }
+
+    stream(prompt: string, onChunk: (chunk: string) => void, options?: ProviderGenerateOptions): Promise<string> {
+        let emitted = false;
+        return this.withRetry(() => this.withTimeout((touch, signal) => this.inner.stream(prompt, chunk => {
+            // Chunks of an attempt that already timed out must not reach the caller
+            if (!touch()) return;
+            emitted = true;
+            onChunk(chunk);
+        }, Object.assign({}, options, { signal })), options?.signal), () => !emitted, options?.signal);
+    }
+
+    private async withRetry<T>(attempt: () => Promise<T>, canRetry: () => boolean, signal?: AbortSignal): Promise<T> {
+        for (let retry = 0; ; retry++) {
+            if (signal?.aborted) throw cancelledError();
+            try {
+                return await attempt();
+            } catch (e) {
+                const error = toProviderError(e);
+                if (signal?.aborted) throw cancelledError();
+                if (!error.retryable || retry >= this.policy.maxRetries || !canRetry()) throw error;
+                const delay = Math.min(MAX_DELAY_MS, BASE_DELAY_MS * Math.pow(2, retry)) * (0.75 + Math.random() * 0.5);
+                console.warn(`${error.kind} error, retry ${retry + 1}/${this.policy.maxRetries} in ${Math.round(delay)} ms:`, error.message);
+                await abortable(new Promise(resolve => window.setTimeout(resolve, delay)), signal);
+            }
+        }
+    }
+
+    /**
+     * Rejects with a timeout error when `run` goes `timeoutMs` without
+     * finishing or calling `touch`. `touch` returns false once the timeout
+     * has fired.
+     *
+     * Each attempt gets its own signal, which fires when the timeout does or
+     * when `parentSignal` fires, so a timed-out request is aborted before it
+     * is retried instead of left running.
+     */
+    private withTimeout<T>(run: (touch: () => boolean, signal: AbortSignal) => Promise<T>, parentSignal?: AbortSignal): Promise<T> {
+        const timeoutMs = this.policy.timeoutMs;
+        const controller = new AbortController();
+        const onParentAbort = () => controller.abort();
+        parentSignal?.addEventListener('abort', onParentAbort);
+        if (parentSignal?.aborted) controller.abort();
+        const settle = () => parentSignal?.removeEventListener('abort', onParentAbort);
+
+        if (timeoutMs <= 0) {
+            const result = run(() => true, controller.signal);
+            result.then(settle, settle);
+            return result;
+        }
+
+        return new Promise<T>((resolve, reject) => {
+            let timer = 0;
+            let timedOut = false;
+            const arm = () => {
+                if (timedOut) return false;
+                window.clearTimeout(timer);
+                timer = window.setTimeout(() => {
+                    timedOut = true;
+                    reject(new ProviderError('timeout', `No response within ${Math.round(timeoutMs / 1000)} seconds`));
+                    controller.abort();
+                }, timeoutMs);
+                return true;
+            };
+            arm();
+            run(arm, controller.signal).then(
+                value => { window.clearTimeout(timer); settle(); resolve(value); },
+                error => { window.clearTimeout(timer); settle(); reject(error); }
+            );
+        });
+    }
+}
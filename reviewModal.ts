@@ -0,0 +1,107 @@
+import { App, Modal, Setting } from "obsidian";
+import { diffWords } from "./wordDiff";
+
+export type ReviewDecision =
+    | { action: 'accept'; text: string }
+    | { action: 'reject' }
+    | { action: 'regenerate' };
+
+/**
+ * Shows a word-level diff between the original selection and the generated
+ * text, and lets the user accept, edit, reject or regenerate it.
+ */
+export class ReviewModal extends Modal {
+    private original: string;
+    private generated: string;
+    private onDecision: (decision: ReviewDecision) => void;
+    private decided = false;
+    private isEditing = false;
+
+    // Explicitly declare properties
+    contentEl: HTMLElement;
+    app: App;
+
+    constructor(app: App, original: string, generated: string, onDecision: (decision: ReviewDecision) => void) {
+        super(app);
+        this.original = original;
+        this.generated = generated;
+        this.onDecision = onDecision;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.addClass("gemini-review-modal");
+
+        contentEl.createEl("h2", { text: "Review Generated Text" });
+
+        // --- Diff View ---
+        const diffEl = contentEl.createDiv('gemini-review-diff');
+        diffEl.style.maxHeight = '50vh';
+        diffEl.style.overflowY = 'auto';
+        diffEl.style.whiteSpace = 'pre-wrap';
+        diffEl.style.padding = '10px';
+        diffEl.style.border = '1px solid var(--background-modifier-border)';
+        diffEl.style.borderRadius = '4px';
+        diffEl.style.fontSize = '0.9em';
+
+        diffWords(this.original, this.generated).forEach(part => {
+            const span = diffEl.createSpan({ text: part.text });
+            if (part.type === 'added') {
+                span.style.backgroundColor = 'rgba(var(--color-green-rgb), 0.25)';
+            } else if (part.type === 'removed') {
+                span.style.backgroundColor = 'rgba(var(--color-red-rgb), 0.25)';
+                span.style.textDecoration = 'line-through';
+            }
+        });
+
+        // --- Editor (hidden until "Edit" is pressed) ---
+        const editEl = contentEl.createEl('textarea');
+        editEl.value = this.generated;
+        editEl.style.width = '100%';
+        editEl.style.height = '200px';
+        editEl.style.marginTop = '10px';
+        editEl.style.display = 'none';
+
+        // --- Actions ---
+        new Setting(contentEl)
+            .addButton(btn => btn
+                .setButtonText("Regenerate")
+                .onClick(() => this.decide({ action: 'regenerate' })))
+            .addButton(btn => btn
+                .setButtonText("Reject")
+                .onClick(() => this.decide({ action: 'reject' })))
+            .addButton(btn => btn
+                .setButtonText("Edit")
+                .onClick(() => {
+                    this.isEditing = true;
+                    diffEl.style.display = 'none';
+                    editEl.style.display = 'block';
+                    editEl.focus();
+                    btn.setDisabled(true);
+                }))
+            .addButton(btn => btn
+                .setButtonText("Accept")
+                .setCta()
+                .onClick(() => this.decide({
+                    action: 'accept',
+                    text: this.isEditing ? editEl.value : this.generated
+                })));
+    }
+
+    private decide(decision: ReviewDecision) {
+        this.decided = true;
+        (this as any).close();
+        this.onDecision(decision);
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+        // Dismissing the modal counts as a rejection
+        if (!this.decided) {
+            this.decided = true;
+            this.onDecision({ action: 'reject' });
+        }
+    }
+}
@@ -1,6 +1,13 @@
 
-import { App, PluginSettingTab, Setting } from "obsidian";
+import { App, Notice, PluginSettingTab, Setting, TFile, moment, normalizePath } from "obsidian";
 import GeminiNotePlugin from "./main";
+import { CITATION_MODE_LABELS, CitationMode, COLLISION_STRATEGY_LABELS, CONTEXT_TYPE_LABELS, ContextType, GeneratedNoteProperties, ModelProfile, NoteCollisionStrategy, ProviderId } from "./types";
+import { createProvider, describeModel, getProviderConfig, getProviderConfigError, PROVIDER_LABELS } from "./providers";
+import { describeError } from "./errors";
+import { validateHostUrl } from "./hostUrl";
+import { exportInstructionPack, getInstructionGroup, listInstructionFiles, parseInstructionPack, writeInstructionFiles } from "./instructions";
+import { InstructionEditorModal } from "./instructionEditor";
+import { confirmAction } from "./promptModals";
 
 export class GeminiNoteSettingTab extends PluginSettingTab {
     plugin: GeminiNotePlugin;
@@ -41,7 +48,38 @@ export class GeminiNoteSettingTab extends PluginSettingTab {
             return controlEl;
         };
 
-        // --- API CONFIGURATION ---
+        // Shows the validation message of a host input below it as the user types
+        const addHostValidation = (controlEl: HTMLElement, inputEl: HTMLInputElement, versioned: boolean) => {
+            const errorEl = controlEl.createDiv();
+            errorEl.style.color = 'var(--text-error)';
+            errorEl.style.fontSize = '0.85em';
+            const update = () => {
+                errorEl.setText(inputEl.value.trim() ? validateHostUrl(inputEl.value, versioned) || '' : '');
+            };
+            inputEl.addEventListener('input', update);
+            update();
+        };
+
+        // --- PROVIDER SELECTION ---
+
+        new Setting(containerEl)
+            .setName('Active Provider')
+            .setDesc('Backend used by default. Can be changed per generation in the generation dialog.')
+            .addDropdown(dropdown => {
+                (Object.keys(PROVIDER_LABELS) as ProviderId[]).forEach(id => {
+                    dropdown.addOption(id, PROVIDER_LABELS[id]);
+                });
+                dropdown
+                    .setValue(this.plugin.settings.provider)
+                    .onChange(async (value) => {
+                        this.plugin.settings.provider = value as ProviderId;
+                        await this.plugin.saveSettings();
+                    });
+            });
+
+        // --- GEMINI API CONFIGURATION ---
+
+        containerEl.createEl('h3', { text: 'Google Gemini' });
 
         const apiKeyControl = addBlockSetting('Gemini API Key', 'Your Google Gemini API Key');
         const apiKeyInput = apiKeyControl.createEl('input', { type: 'text' });
@@ -54,52 +92,224 @@ export class GeminiNoteSettingTab extends PluginSettingTab {
              await this.plugin.saveSettings();
         });
 
-        const apiHostControl = addBlockSetting('API Host (Optional)', 'Base URL for the API. Useful for proxies (e.g., https://gemini-proxy.briht.space). If set, this overrides the default Google API connection.');
+        const apiHostControl = addBlockSetting('API Host (Optional)', 'Base URL for the API, without the version. Useful for proxies (e.g., https://gemini-proxy.briht.space). If set, this overrides the default Google API connection.');
         const apiHostInput = apiHostControl.createEl('input', { type: 'text' });
         apiHostInput.style.width = '100%';
         apiHostInput.value = this.plugin.settings.apiHost;
         apiHostInput.placeholder = 'https://generativelanguage.googleapis.com';
         apiHostInput.addEventListener('change', async () => {
-             this.plugin.settings.apiHost = apiHostInput.value;
+             this.plugin.settings.apiHost = apiHostInput.value.trim();
              await this.plugin.saveSettings();
         });
+        addHostValidation(apiHostControl, apiHostInput, true);
 
-        // --- STANDARD SETTINGS (Standard Row Layout) ---
-        
-        containerEl.createEl('h3', { text: 'General Configuration' });
+        new Setting(containerEl)
+            .setName('API Version')
+            .setDesc('Version segment of the API path (e.g., v1beta or v1)')
+            .addText(text => text
+                .setPlaceholder('v1beta')
+                .setValue(this.plugin.settings.apiVersion)
+                .onChange(async (value) => {
+                    this.plugin.settings.apiVersion = value.trim();
+                    await this.plugin.saveSettings();
+                }));
 
         new Setting(containerEl)
+            .setName('Send Key in Query String')
+            .setDesc('With an API host, send the key as ?key= instead of the x-goog-api-key header. Only for proxies that require it: the key then shows up in access logs.')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.apiKeyInQuery)
+                .onChange(async (value) => {
+                    this.plugin.settings.apiKeyInQuery = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        const headersControl = addBlockSetting('Custom Headers', 'Extra headers sent with every request to the custom host, one "Name: value" pair per line (e.g., Authorization: Bearer <token> for a gateway). Not sent to Google when no host is set.');
+        const headersInput = headersControl.createEl('textarea');
+        headersInput.style.width = '100%';
+        headersInput.style.height = '60px';
+        headersInput.style.fontFamily = 'monospace';
+        headersInput.value = Object.keys(this.plugin.settings.customHeaders)
+            .map(name => `${name}: ${this.plugin.settings.customHeaders[name]}`)
+            .join('\n');
+        headersInput.addEventListener('change', async () => {
+             const headers: Record<string, string> = {};
+             headersInput.value.split('\n').forEach(line => {
+                const separator = line.indexOf(':');
+                if (separator === -1) return;
+                const name = line.slice(0, separator).trim();
+                const value = line.slice(separator + 1).trim();
+                if (/^[A-Za-z0-9!#$%&'*+.^_`|~-]+$/.test(name) && value) {
+                    headers[name] = value;
+                }
+             });
+             this.plugin.settings.customHeaders = headers;
+             await this.plugin.saveSettings();
+        });
+
+        // A dropdown once the model list has been fetched, free text until then
+        const availableModels = this.plugin.settings.availableModels;
+        const modelSetting = new Setting(containerEl)
             .setName('Model Name')
-            .setDesc('The Gemini model to use (e.g., gemini-1.5-pro-latest)')
-            .addText(text => text
-                .setPlaceholder('gemini-1.5-pro-latest')
+            .setDesc(availableModels.length > 0
+                ? 'The Gemini model to use, with its input / output token limits. Refresh to fetch the list again.'
+                : 'The Gemini model to use (e.g., gemini-2.5-flash). Fetch the list of available models to pick from a dropdown.');
+        if (availableModels.length > 0) {
+            modelSetting.addDropdown(dropdown => {
+                availableModels.forEach(model => dropdown.addOption(model.name, describeModel(model)));
+                if (!availableModels.some(model => model.name === this.plugin.settings.modelName)) {
+                    dropdown.addOption(this.plugin.settings.modelName, `${this.plugin.settings.modelName} (not listed)`);
+                }
+                dropdown
+                    .setValue(this.plugin.settings.modelName)
+                    .onChange(async (value) => {
+                        this.plugin.settings.modelName = value;
+                        await this.plugin.saveSettings();
+                    });
+            });
+        } else {
+            modelSetting.addText(text => text
+                .setPlaceholder('gemini-2.5-flash')
                 .setValue(this.plugin.settings.modelName)
                 .onChange(async (value) => {
                     this.plugin.settings.modelName = value;
                     await this.plugin.saveSettings();
                 }));
+        }
+        modelSetting.addExtraButton(button => button
+            .setIcon('refresh-cw')
+            .setTooltip('Fetch available models')
+            .onClick(() => this.fetchModels()));
+
+        new Setting(containerEl)
+            .setName('Test Connection')
+            .setDesc('Sends a token-count request with the key, host, version, headers and model above')
+            .addButton(button => button
+                .setButtonText('Test')
+                .onClick(() => this.testConnection('gemini', button.buttonEl)));
+
+        // --- OPENAI-COMPATIBLE API CONFIGURATION ---
+
+        containerEl.createEl('h3', { text: 'OpenAI-compatible Server' });
+
+        const openAiHostControl = addBlockSetting('Base URL', 'Base URL of the chat-completions API, including the version path (e.g., http://localhost:11434/v1 for Ollama, http://localhost:8080/v1 for llama.cpp).');
+        const openAiHostInput = openAiHostControl.createEl('input', { type: 'text' });
+        openAiHostInput.style.width = '100%';
+        openAiHostInput.value = this.plugin.settings.openAiHost;
+        openAiHostInput.placeholder = 'http://localhost:11434/v1';
+        openAiHostInput.addEventListener('change', async () => {
+             this.plugin.settings.openAiHost = openAiHostInput.value.trim();
+             await this.plugin.saveSettings();
+        });
+        addHostValidation(openAiHostControl, openAiHostInput, false);
+
+        const openAiKeyControl = addBlockSetting('API Key (Optional)', 'Sent as a Bearer token. Most local servers do not need one.');
+        const openAiKeyInput = openAiKeyControl.createEl('input', { type: 'text' });
+        openAiKeyInput.type = 'password';
+        openAiKeyInput.style.width = '100%';
+        openAiKeyInput.value = this.plugin.settings.openAiApiKey;
+        openAiKeyInput.addEventListener('change', async () => {
+             this.plugin.settings.openAiApiKey = openAiKeyInput.value;
+             await this.plugin.saveSettings();
+        });
+
+        new Setting(containerEl)
+            .setName('Model Name')
+            .setDesc('The model name as the server knows it (e.g., llama3.1:8b)')
+            .addText(text => text
+                .setPlaceholder('llama3.1:8b')
+                .setValue(this.plugin.settings.openAiModelName)
+                .onChange(async (value) => {
+                    this.plugin.settings.openAiModelName = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Test Connection')
+            .setDesc('Sends a one-word generation request to the server and model above')
+            .addButton(button => button
+                .setButtonText('Test')
+                .onClick(() => this.testConnection('openai', button.buttonEl)));
+
+        // --- MODEL PROFILES ---
+
+        containerEl.createEl('h3', { text: 'Model Profiles' });
+        containerEl.createEl('p', { text: 'Named combinations of model, generation config and host (e.g., "fast" and "deep") to pick from in the generation dialog. Leave the host empty to use the provider\'s host above, and the temperature or max output tokens empty for the model default.' })
+            .style.color = 'var(--text-muted)';
+
+        this.plugin.settings.modelProfiles.forEach((profile, index) => this.renderProfile(containerEl, profile, index));
+
+        new Setting(containerEl)
+            .addButton(button => button
+                .setButtonText('Add Profile')
+                .onClick(async () => {
+                    this.plugin.settings.modelProfiles.push({
+                        name: `profile ${this.plugin.settings.modelProfiles.length + 1}`,
+                        provider: this.plugin.settings.provider,
+                        model: this.plugin.settings.provider === 'openai' ? this.plugin.settings.openAiModelName : this.plugin.settings.modelName,
+                        apiHost: ''
+                    });
+                    await this.plugin.saveSettings();
+                    this.display();
+                }));
+
+        // --- STANDARD SETTINGS (Standard Row Layout) ---
+        
+        containerEl.createEl('h3', { text: 'General Configuration' });
 
         new Setting(containerEl)
             .setName('Task Instructions Folder')
-            .setDesc('Path to folder containing instruction templates')
+            .setDesc('Path to folder containing instruction templates; subfolders become groups. Frontmatter keys (provider, model, outputAction, contextType, saveLocation, temperature, metaPrompt) in a template override the defaults for that template.')
             .addText(text => text
                 .setPlaceholder('Templates/Instructions')
                 .setValue(this.plugin.settings.instructionsFolder)
                 .onChange(async (value) => {
                     this.plugin.settings.instructionsFolder = value;
                     await this.plugin.saveSettings();
+                    this.plugin.instructionCommands.sync();
                 }));
 
         new Setting(containerEl)
             .setName('Default Context')
             .setDesc('Default context selection in the modal')
-            .addDropdown(dropdown => dropdown
-                .addOption('selection_only', 'Selection Only')
-                .addOption('selection_and_full_note', 'Selection + Full Parent Note')
-                .setValue(this.plugin.settings.defaultContext)
+            .addDropdown(dropdown => {
+                (Object.keys(CONTEXT_TYPE_LABELS) as ContextType[]).forEach(type => {
+                    dropdown.addOption(type, CONTEXT_TYPE_LABELS[type]);
+                });
+                dropdown
+                    .setValue(this.plugin.settings.defaultContext)
+                    .onChange(async (value) => {
+                        this.plugin.settings.defaultContext = value as ContextType;
+                        await this.plugin.saveSettings();
+                    });
+            });
+
+        new Setting(containerEl)
+            .setName('Surrounding Lines')
+            .setDesc('Lines before and after the selection sent as surrounding text')
+            .addText(text => text
+                .setPlaceholder('20')
+                .setValue(String(this.plugin.settings.contextWindowLines))
                 .onChange(async (value) => {
-                    this.plugin.settings.defaultContext = value as any;
-                    await this.plugin.saveSettings();
+                    const lines = parseInt(value, 10);
+                    if (!isNaN(lines) && lines >= 0) {
+                        this.plugin.settings.contextWindowLines = lines;
+                        await this.plugin.saveSettings();
+                    }
+                }));
+
+        new Setting(containerEl)
+            .setName('Surrounding Characters')
+            .setDesc('Maximum characters of surrounding text on each side of the selection')
+            .addText(text => text
+                .setPlaceholder('1000')
+                .setValue(String(this.plugin.settings.contextWindowChars))
+                .onChange(async (value) => {
+                    const chars = parseInt(value, 10);
+                    if (!isNaN(chars) && chars >= 0) {
+                        this.plugin.settings.contextWindowChars = chars;
+                        await this.plugin.saveSettings();
+                    }
                 }));
         
         new Setting(containerEl)
@@ -125,10 +335,340 @@ export class GeminiNoteSettingTab extends PluginSettingTab {
                     await this.plugin.saveSettings();
                 }));
 
+        new Setting(containerEl)
+            .setName('If Note Exists')
+            .setDesc('Default handling when a created note\'s title matches an existing file. Can be changed per generation.')
+            .addDropdown(dropdown => {
+                (Object.keys(COLLISION_STRATEGY_LABELS) as NoteCollisionStrategy[]).forEach(strategy => {
+                    dropdown.addOption(strategy, COLLISION_STRATEGY_LABELS[strategy]);
+                });
+                dropdown
+                    .setValue(this.plugin.settings.noteCollisionStrategy)
+                    .onChange(async (value) => {
+                        this.plugin.settings.noteCollisionStrategy = value as NoteCollisionStrategy;
+                        await this.plugin.saveSettings();
+                    });
+            });
+
+        // --- INSTRUCTION LIBRARY ---
+        containerEl.createEl('h3', { text: 'Instruction Library' });
+        this.renderInstructionLibrary(containerEl, addBlockSetting);
+
+        // --- REQUESTS ---
+        containerEl.createEl('h3', { text: 'Requests' });
+
+        new Setting(containerEl)
+            .setName('Request Timeout (seconds)')
+            .setDesc('Give up when no response (or, while streaming, no new text) arrives for this long. 0 disables the timeout.')
+            .addText(text => text
+                .setPlaceholder('60')
+                .setValue(String(this.plugin.settings.requestTimeoutSeconds))
+                .onChange(async (value) => {
+                    const seconds = parseInt(value, 10);
+                    if (!isNaN(seconds) && seconds >= 0) {
+                        this.plugin.settings.requestTimeoutSeconds = seconds;
+                        await this.plugin.saveSettings();
+                    }
+                }));
+
+        new Setting(containerEl)
+            .setName('Automatic Retries')
+            .setDesc('Retries with exponential backoff after rate limits, timeouts, network and server errors. Streams are not retried once text has arrived.')
+            .addText(text => text
+                .setPlaceholder('3')
+                .setValue(String(this.plugin.settings.maxRetries))
+                .onChange(async (value) => {
+                    const retries = parseInt(value, 10);
+                    if (!isNaN(retries) && retries >= 0) {
+                        this.plugin.settings.maxRetries = retries;
+                        await this.plugin.saveSettings();
+                    }
+                }));
+
+        // --- REVIEW ---
+        containerEl.createEl('h3', { text: 'Review' });
+
+        new Setting(containerEl)
+            .setName('Review Replacements')
+            .setDesc('Show a word-level diff of the generated text before it replaces the selection')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.reviewInPlaceEdits)
+                .onChange(async (value) => {
+                    this.plugin.settings.reviewInPlaceEdits = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Dry Run')
+            .setDesc('Show the assembled prompt before every generation, to copy it or edit it before sending')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.dryRun)
+                .onChange(async (value) => {
+                    this.plugin.settings.dryRun = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        const skipReviewControl = addBlockSetting('Skip Review For', 'Instructions that are applied without review, one per line. Use the instruction name (e.g., Fix grammar) or its full path.');
+        const skipReviewInput = skipReviewControl.createEl('textarea');
+        skipReviewInput.style.width = '100%';
+        skipReviewInput.style.height = '80px';
+        skipReviewInput.value = this.plugin.settings.reviewSkipInstructions.join('\n');
+        skipReviewInput.addEventListener('change', async () => {
+             this.plugin.settings.reviewSkipInstructions = skipReviewInput.value
+                .split('\n')
+                .map(line => line.trim())
+                .filter(line => line.length > 0);
+             await this.plugin.saveSettings();
+        });
+
+        // --- CREATED NOTE PROPERTIES ---
+        containerEl.createEl('h3', { text: 'Created Note Properties' });
+        containerEl.createEl('p', { text: 'Frontmatter property names written to created notes. Leave a name empty to omit that property.' })
+            .style.color = 'var(--text-muted)';
+
+        const propertyFields: { key: keyof GeneratedNoteProperties; name: string; desc: string }[] = [
+            { key: 'source', name: 'Source Note', desc: 'Link to the note the selection came from' },
+            { key: 'instruction', name: 'Instruction', desc: 'Link to the instruction file used' },
+            { key: 'model', name: 'Model', desc: 'Name of the model that generated the note' },
+            { key: 'created', name: 'Creation Time', desc: 'Timestamp of the generation' },
+            { key: 'references', name: 'Background References', desc: 'Links to the background reference files' },
+            { key: 'tags', name: 'Tags', desc: 'Tags suggested by the model' },
+            { key: 'aliases', name: 'Aliases', desc: 'Aliases suggested by the model' }
+        ];
+        propertyFields.forEach(field => {
+            new Setting(containerEl)
+                .setName(field.name)
+                .setDesc(field.desc)
+                .addText(text => text
+                    .setPlaceholder('(omitted)')
+                    .setValue(this.plugin.settings.generatedNoteProperties[field.key])
+                    .onChange(async (value) => {
+                        this.plugin.settings.generatedNoteProperties[field.key] = value.trim();
+                        await this.plugin.saveSettings();
+                    }));
+        });
+
+        new Setting(containerEl)
+            .setName('Creation Time Format')
+            .setDesc('moment.js format of the creation timestamp')
+            .addText(text => text
+                .setPlaceholder('YYYY-MM-DDTHH:mm:ss')
+                .setValue(this.plugin.settings.createdDateFormat)
+                .onChange(async (value) => {
+                    this.plugin.settings.createdDateFormat = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        const extraPropertiesControl = addBlockSetting('Additional Properties (YAML)', 'Static properties added to every created note, e.g. "type: generated". List values such as tags are merged with the generated ones.');
+        const extraPropertiesInput = extraPropertiesControl.createEl('textarea');
+        extraPropertiesInput.style.width = '100%';
+        extraPropertiesInput.style.height = '80px';
+        extraPropertiesInput.style.fontFamily = 'monospace';
+        extraPropertiesInput.value = this.plugin.settings.extraNoteProperties;
+        extraPropertiesInput.addEventListener('change', async () => {
+             this.plugin.settings.extraNoteProperties = extraPropertiesInput.value;
+             await this.plugin.saveSettings();
+        });
+
+        // --- STRUCTURED OUTPUT ---
+        containerEl.createEl('h3', { text: 'Structured Output' });
+
+        new Setting(containerEl)
+            .setName('Native JSON Mode')
+            .setDesc('When creating notes, ask the API for JSON matching the note schema instead of relying on the meta prompt alone. Turn off for proxies or servers that reject it.')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.nativeJsonMode)
+                .onChange(async (value) => {
+                    this.plugin.settings.nativeJsonMode = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('JSON Repair Retries')
+            .setDesc('How many times an invalid create-note response is sent back to the model for repair before falling back to an untitled note')
+            .addText(text => text
+                .setPlaceholder('2')
+                .setValue(String(this.plugin.settings.jsonRepairRetries))
+                .onChange(async (value) => {
+                    const retries = parseInt(value, 10);
+                    if (!isNaN(retries) && retries >= 0) {
+                        this.plugin.settings.jsonRepairRetries = retries;
+                        await this.plugin.saveSettings();
+                    }
+                }));
+
+        // --- BACKGROUND SUGGESTIONS ---
+        containerEl.createEl('h3', { text: 'Background Suggestions' });
+
+        new Setting(containerEl)
+            .setName('Suggest Background Notes')
+            .setDesc('Keep a local search index of the vault and suggest notes matching the selection, plus the parent note\'s links and backlinks, in the generation dialog')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.suggestBackgroundNotes)
+                .onChange(async (value) => {
+                    this.plugin.settings.suggestBackgroundNotes = value;
+                    await this.plugin.saveSettings();
+                    if (value) {
+                        this.plugin.vaultIndex.build();
+                    } else {
+                        this.plugin.vaultIndex.clear();
+                    }
+                }));
+
+        new Setting(containerEl)
+            .setName('Suggested Matches')
+            .setDesc('Number of matching notes suggested from the index (links and backlinks are always listed)')
+            .addText(text => text
+                .setPlaceholder('5')
+                .setValue(String(this.plugin.settings.backgroundSuggestionLimit))
+                .onChange(async (value) => {
+                    const limit = parseInt(value, 10);
+                    if (!isNaN(limit) && limit >= 0) {
+                        this.plugin.settings.backgroundSuggestionLimit = limit;
+                        await this.plugin.saveSettings();
+                    }
+                }));
+
+        new Setting(containerEl)
+            .setName('Cite Background Files')
+            .setDesc('Ask the model to cite the background files it uses, and link each citation to its file inline or as a footnote. Citations of files that were not sent are flagged.')
+            .addDropdown(dropdown => {
+                (Object.keys(CITATION_MODE_LABELS) as CitationMode[]).forEach(mode => {
+                    dropdown.addOption(mode, CITATION_MODE_LABELS[mode]);
+                });
+                dropdown
+                    .setValue(this.plugin.settings.citationMode)
+                    .onChange(async (value) => {
+                        this.plugin.settings.citationMode = value as CitationMode;
+                        await this.plugin.saveSettings();
+                    });
+            });
+
+        // --- ATTACHMENTS ---
+        containerEl.createEl('h3', { text: 'Attachments' });
+
+        new Setting(containerEl)
+            .setName('Send Embedded Images and PDFs')
+            .setDesc('Send files embedded in the selection (e.g. ![[diagram.png]], ![[paper.pdf]]) to the model along with the text. OpenAI-compatible servers receive images only.')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.sendAttachments)
+                .onChange(async (value) => {
+                    this.plugin.settings.sendAttachments = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Include Background File Attachments')
+            .setDesc('Also send the images and PDFs embedded in background reference files')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.backgroundAttachments)
+                .onChange(async (value) => {
+                    this.plugin.settings.backgroundAttachments = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Maximum Attachment Size (MB)')
+            .setDesc('Larger files are skipped with a warning. 0 means no limit. Gemini rejects requests over about 20 MB in total.')
+            .addText(text => text
+                .setPlaceholder('10')
+                .setValue(String(this.plugin.settings.maxAttachmentSizeMb))
+                .onChange(async (value) => {
+                    const size = parseFloat(value);
+                    if (!isNaN(size) && size >= 0) {
+                        this.plugin.settings.maxAttachmentSizeMb = size;
+                        await this.plugin.saveSettings();
+                    }
+                }));
+
+        // --- BATCH ---
+        containerEl.createEl('h3', { text: 'Batch' });
+
+        new Setting(containerEl)
+            .setName('Parallel Requests')
+            .setDesc('How many notes a batch processes at the same time. Lower it if the API reports rate limits.')
+            .addText(text => text
+                .setPlaceholder('2')
+                .setValue(String(this.plugin.settings.batchConcurrency))
+                .onChange(async (value) => {
+                    const concurrency = parseInt(value, 10);
+                    if (!isNaN(concurrency) && concurrency >= 1) {
+                        this.plugin.settings.batchConcurrency = concurrency;
+                        await this.plugin.saveSettings();
+                    }
+                }));
+
+        // --- TOKEN BUDGET ---
+        containerEl.createEl('h3', { text: 'Token Budget' });
+
+        new Setting(containerEl)
+            .setName('Default Token Budget')
+            .setDesc('Maximum estimated input tokens per request. Over the budget, the oldest background references are dropped first, then the parent note is trimmed to the sections nearest the selection. 0 means no limit.')
+            .addText(text => text
+                .setPlaceholder('0')
+                .setValue(String(this.plugin.settings.defaultTokenBudget))
+                .onChange(async (value) => {
+                    const budget = parseInt(value, 10);
+                    if (!isNaN(budget) && budget >= 0) {
+                        this.plugin.settings.defaultTokenBudget = budget;
+                        await this.plugin.saveSettings();
+                    }
+                }));
+
+        const modelBudgetsControl = addBlockSetting('Per-Model Budgets', 'One "model: tokens" pair per line (e.g., gemini-2.5-flash: 900000). Overrides the default budget for that model.');
+        const modelBudgetsInput = modelBudgetsControl.createEl('textarea');
+        modelBudgetsInput.style.width = '100%';
+        modelBudgetsInput.style.height = '80px';
+        modelBudgetsInput.style.fontFamily = 'monospace';
+        modelBudgetsInput.value = Object.keys(this.plugin.settings.modelTokenBudgets)
+            .map(model => `${model}: ${this.plugin.settings.modelTokenBudgets[model]}`)
+            .join('\n');
+        modelBudgetsInput.addEventListener('change', async () => {
+             const budgets: Record<string, number> = {};
+             modelBudgetsInput.value.split('\n').forEach(line => {
+                const separator = line.lastIndexOf(':');
+                if (separator === -1) return;
+                const model = line.slice(0, separator).trim();
+                const budget = parseInt(line.slice(separator + 1).trim(), 10);
+                if (model && !isNaN(budget) && budget >= 0) {
+                    budgets[model] = budget;
+                }
+             });
+             this.plugin.settings.modelTokenBudgets = budgets;
+             await this.plugin.saveSettings();
+        });
+
+        // --- HISTORY ---
+        containerEl.createEl('h3', { text: 'History' });
+
+        new Setting(containerEl)
+            .setName('Log Generations')
+            .setDesc('Keep a history of generations (instruction, model, response, target) in the plugin folder')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.historyEnabled)
+                .onChange(async (value) => {
+                    this.plugin.settings.historyEnabled = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('History Size')
+            .setDesc('Maximum number of generations to keep. The oldest entries are removed first.')
+            .addText(text => text
+                .setPlaceholder('500')
+                .setValue(String(this.plugin.settings.historyLimit))
+                .onChange(async (value) => {
+                    const limit = parseInt(value, 10);
+                    if (!isNaN(limit) && limit > 0) {
+                        this.plugin.settings.historyLimit = limit;
+                        await this.plugin.saveSettings();
+                    }
+                }));
+
         // --- PROMPT CONFIGURATION ---
         containerEl.createEl('h3', { text: 'Meta Prompts (System Instructions)' });
 
-        const createNotePromptControl = addBlockSetting('Create Note Meta Prompt', 'Instructions used when "Create New Note" is selected. MUST strictly enforce JSON output with "title", "content", and "anchorLabel".');
+        const createNotePromptControl = addBlockSetting('Create Note Meta Prompt', 'Instructions used when "Create New Note" is selected. MUST strictly enforce JSON output with "title", "content", and "anchorLabel" (optionally "tags" and "aliases").');
         const createNotePromptInput = createNotePromptControl.createEl('textarea');
         createNotePromptInput.style.width = '100%';
         createNotePromptInput.style.height = '120px';
@@ -149,5 +689,286 @@ export class GeminiNoteSettingTab extends PluginSettingTab {
              this.plugin.settings.inPlaceMetaPrompt = inPlacePromptInput.value;
              await this.plugin.saveSettings();
         });
+
+        const chatPromptControl = addBlockSetting('Chat Meta Prompt', 'Instructions for the chat sidebar. The active note, background references and the conversation so far are appended to it.');
+        const chatPromptInput = chatPromptControl.createEl('textarea');
+        chatPromptInput.style.width = '100%';
+        chatPromptInput.style.height = '120px';
+        chatPromptInput.style.fontFamily = 'monospace';
+        chatPromptInput.value = this.plugin.settings.chatMetaPrompt;
+        chatPromptInput.addEventListener('change', async () => {
+             this.plugin.settings.chatMetaPrompt = chatPromptInput.value;
+             await this.plugin.saveSettings();
+        });
+
+        const continuePromptControl = addBlockSetting('Continue Writing Meta Prompt', 'Instructions for continuing the text at the cursor. The note title and the text before and after the cursor are appended to it.');
+        const continuePromptInput = continuePromptControl.createEl('textarea');
+        continuePromptInput.style.width = '100%';
+        continuePromptInput.style.height = '120px';
+        continuePromptInput.style.fontFamily = 'monospace';
+        continuePromptInput.value = this.plugin.settings.continueMetaPrompt;
+        continuePromptInput.addEventListener('change', async () => {
+             this.plugin.settings.continueMetaPrompt = continuePromptInput.value;
+             await this.plugin.saveSettings();
+        });
+    }
+
+    private renderProfile(containerEl: HTMLElement, profile: ModelProfile, index: number) {
+        const save = () => this.plugin.saveSettings();
+        const parseOptional = (value: string, parse: (text: string) => number): number | undefined => {
+            const number = parse(value.trim());
+            return value.trim() === '' || isNaN(number) ? undefined : number;
+        };
+
+        new Setting(containerEl)
+            .setName('Profile')
+            .setDesc('Name, provider and model')
+            .addText(text => text
+                .setPlaceholder('fast')
+                .setValue(profile.name)
+                .onChange(async (value) => {
+                    profile.name = value.trim();
+                    await save();
+                }))
+            .addDropdown(dropdown => {
+                (Object.keys(PROVIDER_LABELS) as ProviderId[]).forEach(id => {
+                    dropdown.addOption(id, PROVIDER_LABELS[id]);
+                });
+                dropdown
+                    .setValue(profile.provider)
+                    .onChange(async (value) => {
+                        profile.provider = value as ProviderId;
+                        await save();
+                    });
+            })
+            .addText(text => text
+                .setPlaceholder('gemini-2.5-flash')
+                .setValue(profile.model)
+                .onChange(async (value) => {
+                    profile.model = value.trim();
+                    await save();
+                }))
+            .addExtraButton(button => button
+                .setIcon('trash')
+                .setTooltip('Delete profile')
+                .onClick(async () => {
+                    this.plugin.settings.modelProfiles.splice(index, 1);
+                    await save();
+                    this.display();
+                }));
+
+        new Setting(containerEl)
+            .setDesc('Temperature, max output tokens and host')
+            .addText(text => text
+                .setPlaceholder('temperature')
+                .setValue(profile.temperature !== undefined ? String(profile.temperature) : '')
+                .onChange(async (value) => {
+                    profile.temperature = parseOptional(value, parseFloat);
+                    await save();
+                }))
+            .addText(text => text
+                .setPlaceholder('max output tokens')
+                .setValue(profile.maxOutputTokens !== undefined ? String(profile.maxOutputTokens) : '')
+                .onChange(async (value) => {
+                    profile.maxOutputTokens = parseOptional(value, text => parseInt(text, 10));
+                    await save();
+                }))
+            .addText(text => text
+                .setPlaceholder('host')
+                .setValue(profile.apiHost)
+                .onChange(async (value) => {
+                    profile.apiHost = value.trim();
+                    await save();
+                }));
+    }
+
+    /**
+     * Lists the instructions by group, with actions to create, edit,
+     * duplicate and delete them and to import or export them as a pack.
+     */
+    private renderInstructionLibrary(containerEl: HTMLElement, addBlockSetting: (name: string, desc: string) => HTMLElement) {
+        const folderPath = this.plugin.settings.instructionsFolder;
+        const refresh = () => this.display();
+
+        new Setting(containerEl)
+            .setName('Manage Instructions')
+            .setDesc('Subfolders of the instructions folder show up as groups in the instruction dropdown. Every instruction is also a command that runs without the dialog, with the options last used for it there. Packs are single JSON files holding a set of instructions.')
+            .addButton(button => button
+                .setButtonText('New')
+                .setCta()
+                .onClick(() => (new InstructionEditorModal(this.app, folderPath, null, refresh) as any).open()))
+            .addButton(button => button
+                .setButtonText('Starter Set')
+                .onClick(async () => {
+                    await this.plugin.createStarterInstructions();
+                    refresh();
+                }))
+            .addButton(button => button
+                .setButtonText('Import Pack')
+                .onClick(() => this.importInstructionPack()))
+            .addButton(button => button
+                .setButtonText('Export Pack')
+                .onClick(() => this.exportInstructionPack()));
+
+        const menuControl = addBlockSetting('Context Menu Instructions', 'Instructions offered in the editor context menu when text is selected, one per line. Use the instruction name (e.g., Fix grammar) or its full path.');
+        const menuInput = menuControl.createEl('textarea');
+        menuInput.style.width = '100%';
+        menuInput.style.height = '60px';
+        menuInput.value = this.plugin.settings.editorMenuInstructions.join('\n');
+        menuInput.addEventListener('change', async () => {
+             this.plugin.settings.editorMenuInstructions = menuInput.value
+                .split('\n')
+                .map(line => line.trim())
+                .filter(line => line.length > 0);
+             await this.plugin.saveSettings();
+        });
+
+        const files = listInstructionFiles(this.app, folderPath);
+        if (files.length === 0) {
+            containerEl.createEl('p', { text: `No instructions in "${folderPath}" yet.` })
+                .style.color = 'var(--text-muted)';
+            return;
+        }
+
+        let currentGroup: string | null = null;
+        files.forEach(file => {
+            const group = getInstructionGroup(file, folderPath);
+            if (group !== currentGroup) {
+                currentGroup = group;
+                const groupEl = containerEl.createEl('h6', { text: group || 'Ungrouped' });
+                groupEl.style.margin = '12px 0 0 0';
+                groupEl.style.color = 'var(--text-muted)';
+            }
+            new Setting(containerEl)
+                .setName(file.basename)
+                .addExtraButton(button => button
+                    .setIcon('pencil')
+                    .setTooltip('Edit')
+                    .onClick(() => (new InstructionEditorModal(this.app, folderPath, file, refresh) as any).open()))
+                .addExtraButton(button => button
+                    .setIcon('copy')
+                    .setTooltip('Duplicate')
+                    .onClick(async () => {
+                        await this.duplicateInstruction(file);
+                        refresh();
+                    }))
+                .addExtraButton(button => button
+                    .setIcon('trash')
+                    .setTooltip('Delete')
+                    .onClick(async () => {
+                        if (!(await confirmAction(this.app, `Delete the instruction "${file.basename}"?`, "Delete"))) return;
+                        await this.app.fileManager.trashFile(file);
+                        refresh();
+                    }));
+        });
+    }
+
+    private async duplicateInstruction(file: TFile) {
+        const folder = file.parent ? file.parent.path : "";
+        let path = normalizePath(`${folder}/${file.basename} copy.md`);
+        for (let counter = 2; this.app.vault.getAbstractFileByPath(path); counter++) {
+            path = normalizePath(`${folder}/${file.basename} copy ${counter}.md`);
+        }
+        await this.app.vault.create(path, await this.app.vault.read(file));
+    }
+
+    /**
+     * Saves all instructions as one pack file at the vault root.
+     */
+    private async exportInstructionPack() {
+        const pack = await exportInstructionPack(this.app, this.plugin.settings.instructionsFolder);
+        if (pack.instructions.length === 0) {
+            new Notice("There are no instructions to export.");
+            return;
+        }
+        const baseName = `Instruction Pack ${(moment as any)().format('YYYY-MM-DD')}`;
+        let path = `${baseName}.json`;
+        for (let counter = 2; this.app.vault.getAbstractFileByPath(path); counter++) {
+            path = `${baseName} ${counter}.json`;
+        }
+        await this.app.vault.create(path, JSON.stringify(pack, null, 2));
+        new Notice(`Exported ${pack.instructions.length} instructions to ${path}.`);
+    }
+
+    /**
+     * Lets the user pick a pack file and adds its instructions to the
+     * folder. Instructions that already exist are kept.
+     */
+    private importInstructionPack() {
+        const input = document.createElement('input');
+        input.type = 'file';
+        input.accept = '.json,application/json';
+        input.onchange = async () => {
+            const file = input.files?.[0];
+            if (!file) return;
+            try {
+                const pack = parseInstructionPack(await file.text());
+                const { created, skipped } = await writeInstructionFiles(this.app, this.plugin.settings.instructionsFolder, pack.instructions);
+                new Notice(skipped.length > 0
+                    ? `Imported ${created.length} instructions; skipped ${skipped.length} that already exist or have invalid paths.`
+                    : `Imported ${created.length} instructions.`);
+                this.display();
+            } catch (error) {
+                new Notice(`Import failed: ${error.message || error}`);
+            }
+        };
+        input.click();
+    }
+
+    /**
+     * Sends a minimal request through the provider as configured, without
+     * retries, and reports the outcome in a notice.
+     */
+    private async testConnection(id: ProviderId, button: HTMLButtonElement) {
+        const configError = getProviderConfigError(this.plugin.settings, id);
+        if (configError) {
+            new Notice(configError);
+            return;
+        }
+
+        const settings = Object.assign({}, this.plugin.settings, { maxRetries: 0 });
+        const provider = createProvider(settings, id);
+        const { apiHost, modelName } = getProviderConfig(settings, id);
+        button.disabled = true;
+        try {
+            if (provider.countTokens) {
+                await provider.countTokens("Connection test");
+            } else {
+                await provider.generate("Reply with the single word OK.", { maxOutputTokens: 16 });
+            }
+            new Notice(`Connected to ${apiHost.trim() || 'the Google API'} with ${modelName}.`);
+        } catch (error) {
+            console.error("Connection test failed:", error);
+            new Notice(`Connection test failed: ${describeError(error)}`, 10000);
+        } finally {
+            button.disabled = false;
+        }
+    }
+
+    /**
+     * Fetches the Gemini models available to the API key and redraws the
+     * settings with the model dropdown.
+     */
+    private async fetchModels() {
+        const configError = getProviderConfigError(this.plugin.settings, 'gemini');
+        if (configError) {
+            new Notice(configError);
+            return;
+        }
+        const provider = createProvider(this.plugin.settings, 'gemini');
+        if (!provider.listModels) return;
+        try {
+            const models = await provider.listModels();
+            if (models.length === 0) {
+                new Notice("The API listed no models that support text generation.");
+                return;
+            }
+            this.plugin.settings.availableModels = models;
+            await this.plugin.saveSettings();
+            new Notice(`Found ${models.length} models.`);
+            this.display();
+        } catch (error) {
+            new Notice(`Could not fetch models: ${describeError(error)}`, 10000);
+        }
     }
 }
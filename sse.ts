@@ -0,0 +1,54 @@
+/**
+ * Reads a Server-Sent Events response body and passes the payload of every
+ * `data:` line to `onData`. Used by the streaming provider paths, since
+ * Obsidian's requestUrl buffers the whole body.
+ */
+export async function readSseStream(response: Response, onData: (data: string) => void): Promise<void> {
+    if (!response.body) {
+        throw new Error("Response has no body to stream");
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+
+    const handleLine = (line: string) => {
+        const trimmed = line.trim();
+        if (!trimmed.startsWith("data:")) return;
+        const data = trimmed.slice(5).trim();
+        if (!data || data === "[DONE]") return;
+        onData(data);
+    };
+
+    while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+
+        let newlineIndex = buffer.indexOf("\n");
+        while (newlineIndex !== -1) {
+            handleLine(buffer.slice(0, newlineIndex));
+            buffer = buffer.slice(newlineIndex + 1);
+            newlineIndex = buffer.indexOf("\n");
+        }
+    }
+    handleLine(buffer + decoder.decode());
+}
+
+/**
+ * Starts a streaming request with fetch. Resolves to null when fetch itself
+ * fails, e.g. on a proxy or local server that sends no CORS headers, so the
+ * caller can fall back to a buffered requestUrl request, which CORS does not
+ * apply to. Unreachable hosts then fail there with the usual network error.
+ */
+export async function fetchForStream(url: string, init: RequestInit): Promise<Response | null> {
+    try {
+        return await fetch(url, init);
+    } catch (error) {
+        if (error instanceof TypeError && !init.signal?.aborted) {
+            console.warn(`Streaming request to ${new URL(url).host} failed (${error.message}), retrying without streaming.`);
+            return null;
+        }
+        throw error;
+    }
+}
@@ -0,0 +1,58 @@
+/**
+ * Instructions offered on first run, as paths relative to the instructions
+ * folder. Subfolders become groups in the instruction dropdown.
+ */
+export const STARTER_INSTRUCTIONS: { path: string; content: string }[] = [
+    {
+        path: 'Notes/Summarize.md',
+        content: `---
+outputAction: create_note
+contextType: selection_and_section
+---
+Summarize the selected text in a few short paragraphs, followed by a bullet list of the key points. Keep the original terminology.
+`
+    },
+    {
+        path: 'Notes/Explain concept.md',
+        content: `---
+outputAction: create_note
+contextType: selection_and_full_note
+---
+Write a note explaining the concept named in the selection: a one-sentence definition, how it works, an example, and related concepts worth linking. Use the surrounding note to pick the right level of detail.
+`
+    },
+    {
+        path: 'Notes/Extract action items.md',
+        content: `---
+outputAction: insert_after
+---
+List every task, decision or follow-up in the selected text as a Markdown checklist ("- [ ] ..."). Include the owner and due date when the text mentions them. Output only the checklist.
+`
+    },
+    {
+        path: 'Writing/Fix grammar.md',
+        content: `---
+outputAction: replace_selection
+temperature: 0.2
+---
+Correct spelling, grammar and punctuation in the selected text. Keep the wording, tone, language and Markdown formatting otherwise unchanged. Output only the corrected text.
+`
+    },
+    {
+        path: 'Writing/Rewrite concisely.md',
+        content: `---
+outputAction: replace_selection
+---
+Rewrite the selected text to be clearer and about a third shorter, without dropping any information. Keep the language and Markdown formatting. Output only the rewritten text.
+`
+    },
+    {
+        path: 'Writing/Continue.md',
+        content: `---
+outputAction: insert_after
+contextType: selection_and_section
+---
+Continue the text after the selection with one or two paragraphs in the same voice, style and language. Output only the new text.
+`
+    }
+];
@@ -0,0 +1,120 @@
+import { moment } from "obsidian";
+import { GenerationRequest } from "./types";
+
+/**
+ * Placeholders supported in instruction files:
+ *   {{selection}}            The selected text
+ *   {{noteTitle}}            Title of the parent note (without extension)
+ *   {{notePath}}             Vault path of the parent note
+ *   {{date}} / {{date:FMT}}  Current date, formatted with moment.js (default YYYY-MM-DD)
+ *   {{time}} / {{time:FMT}}  Current time, formatted with moment.js (default HH:mm)
+ *   {{frontmatter.KEY}}      A frontmatter field of the parent note (empty if missing)
+ *   {{heading}}              The nearest heading above the selection
+ *   {{contextBefore}}        Text preceding the selection
+ *   {{contextAfter}}         Text following the selection
+ *   {{clipboard}}            Current clipboard text
+ */
+export interface TemplateContext {
+    request: GenerationRequest;
+    notePath: string;
+    frontmatter: Record<string, any>;
+    heading: string;
+}
+
+export class TemplateError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "TemplateError";
+    }
+}
+
+// obsidian re-exports moment as a namespace import, which is callable at runtime
+const now = (format: string): string => (moment as any)().format(format);
+
+const PLACEHOLDER_REGEX = /\{\{\s*([^{}]+?)\s*\}\}/g;
+
+/**
+ * Fills in the placeholders of an instruction. Throws a TemplateError listing
+ * every unknown placeholder before anything is substituted.
+ */
+export async function renderInstructionTemplate(template: string, context: TemplateContext): Promise<string> {
+    const names = new Set<string>();
+    template.replace(PLACEHOLDER_REGEX, (_match, name: string) => {
+        names.add(name);
+        return "";
+    });
+    if (names.size === 0) return template;
+
+    const unknown = Array.from(names).filter(name => !isKnownPlaceholder(name));
+    if (unknown.length > 0) {
+        throw new TemplateError(`Unknown placeholder${unknown.length > 1 ? "s" : ""} in instruction: ${unknown.map(name => `{{${name}}}`).join(", ")}`);
+    }
+
+    // Only touch the clipboard when the template asks for it
+    let clipboardText = "";
+    if (names.has("clipboard")) {
+        try {
+            clipboardText = await navigator.clipboard.readText();
+        } catch (e) {
+            throw new TemplateError("Could not read the clipboard for {{clipboard}}.");
+        }
+    }
+
+    return template.replace(PLACEHOLDER_REGEX, (_match, name: string) => resolvePlaceholder(name, context, clipboardText));
+}
+
+function splitPlaceholder(name: string): { key: string; arg: string } {
+    const colonIndex = name.indexOf(":");
+    if (colonIndex === -1) return { key: name, arg: "" };
+    return { key: name.slice(0, colonIndex).trim(), arg: name.slice(colonIndex + 1).trim() };
+}
+
+// Placeholder keys, and whether each takes an argument after ":" (a moment.js format)
+const PLACEHOLDER_ARGUMENTS: Record<string, boolean> = {
+    selection: false,
+    noteTitle: false,
+    notePath: false,
+    date: true,
+    time: true,
+    heading: false,
+    contextBefore: false,
+    contextAfter: false,
+    clipboard: false
+};
+
+function isKnownPlaceholder(name: string): boolean {
+    if (name.startsWith("frontmatter.")) {
+        return name.length > "frontmatter.".length;
+    }
+    const { key } = splitPlaceholder(name);
+    if (!PLACEHOLDER_ARGUMENTS.hasOwnProperty(key)) return false;
+    // "{{selection:x}}" is rejected instead of silently rendering as "{{selection}}"
+    return PLACEHOLDER_ARGUMENTS[key] || name.indexOf(":") === -1;
+}
+
+function resolvePlaceholder(name: string, context: TemplateContext, clipboardText: string): string {
+    if (name.startsWith("frontmatter.")) {
+        return formatFrontmatterValue(context.frontmatter[name.slice("frontmatter.".length)]);
+    }
+
+    const { key, arg } = splitPlaceholder(name);
+    switch (key) {
+        case "selection": return context.request.selectedText;
+        case "noteTitle": return context.request.parentNoteTitle.replace(/\.md$/, "");
+        case "notePath": return context.notePath;
+        case "date": return now(arg || "YYYY-MM-DD");
+        case "time": return now(arg || "HH:mm");
+        case "heading": return context.heading;
+        case "contextBefore": return context.request.contextBefore;
+        case "contextAfter": return context.request.contextAfter;
+        case "clipboard": return clipboardText;
+        default: return "";
+    }
+}
+
+function formatFrontmatterValue(value: any): string {
+    if (value === undefined || value === null) return "";
+    if (Array.isArray(value)) return value.map(formatFrontmatterValue).join(", ");
+    if (typeof value === "object") return JSON.stringify(value);
+    return String(value);
+}
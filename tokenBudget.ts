@@ -0,0 +1,179 @@
+import { GeminiNoteSettings } from "./types";
+
+export interface ReferenceFile {
+    path: string;
+    content: string;
+    mtime: number;
+}
+
+export interface BudgetInput {
+    fixedText: string; // Parts that are never trimmed: meta prompt, instruction, selection, nearby context
+    parentNoteContent: string; // Empty when the full note is not sent
+    selectionOffset: number; // Where the selection starts in parentNoteContent
+    references: ReferenceFile[]; // Picked by the user; dropped only as a last resort
+    scopeNotes?: ReferenceFile[]; // Added automatically by the context scope; dropped first
+}
+
+export interface BudgetResult {
+    parentNoteContent: string;
+    references: ReferenceFile[];
+    scopeNotes: ReferenceFile[];
+    droppedReferences: string[]; // Paths of the dropped references and scope notes
+    parentTrimmed: boolean;
+    totalTokens: number;
+    overBudget: boolean; // Still over budget after trimming everything that can be trimmed
+}
+
+/**
+ * Character ranges of the CJK scripts (kana, ideographs, Hangul), for use
+ * inside a regular expression character class.
+ */
+export const CJK_RANGES = '぀-ヿ㐀-䶿一-鿿가-힯豈-﫿';
+
+const CJK_REGEX = new RegExp(`[${CJK_RANGES}]`, 'g');
+
+/**
+ * Rough local token estimate: about four characters per token for Latin
+ * text, one token per CJK character.
+ */
+export function estimateTokens(text: string): number {
+    if (!text) return 0;
+    const cjkCount = (text.match(CJK_REGEX) || []).length;
+    return cjkCount + Math.ceil((text.length - cjkCount) / 4);
+}
+
+export function formatReference(reference: { path: string; content: string }): string {
+    return `\n--- REFERENCE FILE: ${reference.path} ---\n${reference.content}\n`;
+}
+
+/**
+ * Returns the input token budget for a model: its own entry in the budget
+ * table, else the default. 0 means no limit.
+ */
+export function getTokenBudget(settings: GeminiNoteSettings, modelName: string): number {
+    const budget = settings.modelTokenBudgets[modelName];
+    return budget !== undefined ? budget : settings.defaultTokenBudget;
+}
+
+/**
+ * Fits the context into the budget. Scope notes are dropped first, oldest
+ * first (by modification time); then the parent note is cut down to the
+ * sections nearest the selection; the references the user picked are
+ * dropped, oldest first, only if that is still not enough. The fixed parts
+ * are never trimmed.
+ */
+export function applyTokenBudget(input: BudgetInput, budget: number): BudgetResult {
+    const fixedTokens = estimateTokens(input.fixedText);
+    let references = input.references.slice();
+    let scopeNotes = (input.scopeNotes || []).slice();
+    let parentNoteContent = input.parentNoteContent;
+    const droppedReferences: string[] = [];
+    let parentTrimmed = false;
+
+    const referenceTokens = () => references.concat(scopeNotes).reduce((sum, ref) => sum + estimateTokens(formatReference(ref)), 0);
+    const total = () => fixedTokens + estimateTokens(parentNoteContent) + referenceTokens();
+    const result = (): BudgetResult => ({
+        parentNoteContent,
+        references,
+        scopeNotes,
+        droppedReferences,
+        parentTrimmed,
+        totalTokens: total(),
+        overBudget: total() > budget
+    });
+
+    if (budget <= 0 || total() <= budget) {
+        return Object.assign(result(), { overBudget: false });
+    }
+
+    // 1. Drop the oldest scope notes first
+    for (const note of scopeNotes.slice().sort((a, b) => a.mtime - b.mtime)) {
+        if (total() <= budget) break;
+        scopeNotes = scopeNotes.filter(ref => ref !== note);
+        droppedReferences.push(note.path);
+    }
+
+    // 2. Keep only the parent note sections nearest the selection
+    const trimParent = () => {
+        const available = budget - fixedTokens - referenceTokens();
+        parentNoteContent = available > 0
+            ? trimToNearestSections(input.parentNoteContent, input.selectionOffset, available)
+            : "";
+        parentTrimmed = true;
+    };
+    if (total() > budget && parentNoteContent) {
+        trimParent();
+    }
+
+    // 3. Last resort: drop the oldest picked references, giving the parent note the freed space
+    if (total() > budget && references.length > 0) {
+        for (const reference of references.slice().sort((a, b) => a.mtime - b.mtime)) {
+            if (fixedTokens + referenceTokens() < budget) break;
+            references = references.filter(ref => ref !== reference);
+            droppedReferences.push(reference.path);
+        }
+        if (input.parentNoteContent) {
+            trimParent();
+        }
+    }
+
+    return result();
+}
+
+/**
+ * Keeps the heading section that contains `offset` and then adds the
+ * neighbouring sections, nearest first, while they fit in `maxTokens`.
+ * Gaps are marked with "[...]".
+ */
+export function trimToNearestSections(content: string, offset: number, maxTokens: number): string {
+    const sections = splitSections(content);
+    let current = sections.findIndex(section => offset >= section.start && offset < section.end);
+    if (current === -1) current = sections.length - 1;
+
+    const currentText = sections[current].text;
+    if (estimateTokens(currentText) > maxTokens) {
+        // Even the enclosing section is too large: keep a window around the selection
+        const ratio = maxTokens / estimateTokens(currentText);
+        const windowSize = Math.floor(currentText.length * ratio);
+        const localOffset = offset - sections[current].start;
+        const start = Math.max(0, Math.min(localOffset - Math.floor(windowSize / 2), currentText.length - windowSize));
+        return `[...]\n${currentText.slice(start, start + windowSize)}\n[...]`;
+    }
+
+    const kept = new Set<number>([current]);
+    let used = estimateTokens(currentText);
+    for (let distance = 1; distance < sections.length; distance++) {
+        for (const index of [current - distance, current + distance]) {
+            if (index < 0 || index >= sections.length) continue;
+            const cost = estimateTokens(sections[index].text);
+            if (used + cost <= maxTokens) {
+                kept.add(index);
+                used += cost;
+            }
+        }
+    }
+
+    let result = "";
+    let previous = -1;
+    sections.forEach((section, index) => {
+        if (!kept.has(index)) return;
+        if (index !== previous + 1) result += "\n[...]\n";
+        result += section.text;
+        previous = index;
+    });
+    if (previous !== sections.length - 1) result += "\n[...]\n";
+    return result;
+}
+
+function splitSections(content: string): { start: number; end: number; text: string }[] {
+    const starts = [0];
+    const headingRegex = /^#{1,6}\s/gm;
+    let match: RegExpExecArray | null;
+    while ((match = headingRegex.exec(content)) !== null) {
+        if (match.index > 0) starts.push(match.index);
+    }
+    return starts.map((start, index) => {
+        const end = index + 1 < starts.length ? starts[index + 1] : content.length;
+        return { start, end, text: content.slice(start, end) };
+    });
+}
@@ -1,34 +1,217 @@
 
 export type OutputAction = 'create_note' | 'replace_selection' | 'insert_after';
 
+export type ProviderId = 'gemini' | 'openai';
+
+/**
+ * What to do when a created note's title matches an existing file.
+ */
+export type NoteCollisionStrategy = 'suffix' | 'append' | 'overwrite' | 'prompt';
+
+export const COLLISION_STRATEGY_LABELS: Record<NoteCollisionStrategy, string> = {
+    suffix: 'Add a numeric suffix',
+    append: 'Append under a new heading',
+    overwrite: 'Overwrite after confirmation',
+    prompt: 'Ask for a new title'
+};
+
+/**
+ * How the model's citations of background reference files are written into
+ * the generated text.
+ */
+export type CitationMode = 'off' | 'wikilinks' | 'footnotes';
+
+export const CITATION_MODE_LABELS: Record<CitationMode, string> = {
+    off: 'Off',
+    wikilinks: 'Inline links',
+    footnotes: 'Footnotes'
+};
+
+/**
+ * How much of the vault around the selection is sent with it.
+ */
+export type ContextType =
+    | 'selection_only'
+    | 'selection_and_section'
+    | 'selection_and_full_note'
+    | 'selection_and_linked_notes'
+    | 'selection_and_folder';
+
+export const CONTEXT_TYPE_LABELS: Record<ContextType, string> = {
+    selection_only: 'Selection Only',
+    selection_and_section: 'Selection + Current Section',
+    selection_and_full_note: 'Selection + Full Parent Note',
+    selection_and_linked_notes: 'Selection + Parent Note + Linked Notes',
+    selection_and_folder: 'Selection + Notes in Folder'
+};
+
+/**
+ * Property names written to the frontmatter of created notes.
+ * An empty name leaves that property out.
+ */
+export interface GeneratedNoteProperties {
+    source: string;
+    instruction: string;
+    model: string;
+    created: string;
+    references: string;
+    tags: string;
+    aliases: string;
+}
+
+/**
+ * A model the API reports as available, with its context limits.
+ */
+export interface ModelInfo {
+    name: string; // ID used in requests, without the "models/" prefix
+    displayName?: string;
+    inputTokenLimit?: number;
+    outputTokenLimit?: number;
+}
+
+/**
+ * A named combination of model, generation config and host (e.g. "fast",
+ * "deep") that can be picked per generation.
+ */
+export interface ModelProfile {
+    name: string;
+    provider: ProviderId;
+    model: string;
+    temperature?: number;
+    maxOutputTokens?: number;
+    apiHost: string; // Empty to use the provider's configured host
+}
+
+/**
+ * Options last used with an instruction in the generation dialog, reused
+ * when the instruction runs as its own command.
+ */
+export interface InstructionRunOptions {
+    contextType: ContextType;
+    outputAction: OutputAction;
+    saveLocation: string;
+    collisionStrategy: NoteCollisionStrategy;
+    provider: ProviderId;
+    modelName: string;
+    profileName?: string; // Name of the model profile, if one was picked
+}
+
 export interface GeminiNoteSettings {
+    provider: ProviderId;
+    // Gemini provider
     apiKey: string;
     apiHost: string;
+    apiVersion: string; // API version path segment, e.g. "v1beta"
+    apiKeyInQuery: boolean; // Custom host: send the key as ?key= instead of the x-goog-api-key header
+    customHeaders: Record<string, string>; // Extra headers sent with every Gemini request
     modelName: string;
+    availableModels: ModelInfo[]; // Last model list fetched from the Gemini API
+    // OpenAI-compatible provider
+    openAiApiKey: string;
+    openAiHost: string;
+    openAiModelName: string;
+    modelProfiles: ModelProfile[];
     instructionsFolder: string;
-    defaultContext: 'selection_only' | 'selection_and_full_note';
+    starterInstructionsOffered: boolean; // The first-run offer of starter instructions has been shown
+    instructionRunOptions: Record<string, InstructionRunOptions>; // Last-used options per instruction path
+    editorMenuInstructions: string[]; // Instruction paths or names shown in the editor context menu
+    defaultContext: ContextType;
+    contextWindowLines: number; // Lines before and after the selection sent as surrounding text
+    contextWindowChars: number; // Character cap on each side of that surrounding text
     defaultSaveLocation: string;
     defaultOutputAction: OutputAction;
+    noteCollisionStrategy: NoteCollisionStrategy;
+    reviewInPlaceEdits: boolean; // Show a diff review before replacing the selection
+    reviewSkipInstructions: string[]; // Instruction paths or names that never get a review
+    dryRun: boolean; // Show the assembled prompt for review instead of sending it straight away
+    citationMode: CitationMode; // Ask for citations of background files and link them
+    historyEnabled: boolean;
+    historyLimit: number; // Oldest entries are dropped beyond this count
+    nativeJsonMode: boolean; // Ask the API for schema-constrained JSON when creating notes
+    jsonRepairRetries: number; // Re-prompts for invalid create-note JSON before falling back
+    suggestBackgroundNotes: boolean; // Keep a vault index and suggest background notes in the modal
+    backgroundSuggestionLimit: number; // Number of index matches suggested per generation
+    sendAttachments: boolean; // Send images and PDFs embedded in the selection as inline data
+    backgroundAttachments: boolean; // Also send the ones embedded in background files
+    maxAttachmentSizeMb: number; // Larger attachments are skipped with a warning
+    requestTimeoutSeconds: number; // Longest wait for a response or the next streamed chunk, 0 for none
+    maxRetries: number; // Automatic retries for rate limits, timeouts, network and server errors
+    batchConcurrency: number; // Notes processed in parallel by a batch
+    defaultTokenBudget: number; // Max estimated input tokens per request, 0 for no limit
+    modelTokenBudgets: Record<string, number>; // Per-model overrides of defaultTokenBudget
+    generatedNoteProperties: GeneratedNoteProperties;
+    createdDateFormat: string; // moment.js format of the creation timestamp property
+    extraNoteProperties: string; // Static YAML merged into every created note's frontmatter
     createNoteMetaPrompt: string;
     inPlaceMetaPrompt: string;
+    chatMetaPrompt: string;
+    continueMetaPrompt: string;
 }
 
 export const DEFAULT_SETTINGS: GeminiNoteSettings = {
+    provider: 'gemini',
     apiKey: '',
     apiHost: '',
-    modelName: 'gemini-1.5-pro-latest',
+    apiVersion: 'v1beta',
+    apiKeyInQuery: false,
+    customHeaders: {},
+    modelName: 'gemini-2.5-flash',
+    availableModels: [],
+    openAiApiKey: '',
+    openAiHost: 'http://localhost:11434/v1',
+    openAiModelName: '',
+    modelProfiles: [
+        { name: 'fast', provider: 'gemini', model: 'gemini-2.5-flash', temperature: 0.4, apiHost: '' },
+        { name: 'deep', provider: 'gemini', model: 'gemini-2.5-pro', temperature: 0.7, apiHost: '' }
+    ],
     instructionsFolder: 'Templates/Instructions',
+    starterInstructionsOffered: false,
+    instructionRunOptions: {},
+    editorMenuInstructions: [],
     defaultContext: 'selection_only',
+    contextWindowLines: 20,
+    contextWindowChars: 1000,
     defaultSaveLocation: '',
     defaultOutputAction: 'create_note',
+    noteCollisionStrategy: 'suffix',
+    reviewInPlaceEdits: false,
+    reviewSkipInstructions: [],
+    dryRun: false,
+    citationMode: 'off',
+    historyEnabled: true,
+    historyLimit: 500,
+    nativeJsonMode: true,
+    jsonRepairRetries: 2,
+    suggestBackgroundNotes: true,
+    backgroundSuggestionLimit: 5,
+    sendAttachments: true,
+    backgroundAttachments: false,
+    maxAttachmentSizeMb: 10,
+    requestTimeoutSeconds: 60,
+    maxRetries: 3,
+    batchConcurrency: 2,
+    defaultTokenBudget: 0,
+    modelTokenBudgets: {},
+    generatedNoteProperties: {
+        source: 'source',
+        instruction: 'instruction',
+        model: 'model',
+        created: 'created',
+        references: 'references',
+        tags: 'tags',
+        aliases: 'aliases'
+    },
+    createdDateFormat: 'YYYY-MM-DDTHH:mm:ss',
+    extraNoteProperties: '',
     createNoteMetaPrompt: `You are an expert Knowledge Manager and Obsidian Assistant.
 Your goal is to process the user's input and generate a structured JSON response for a NEW NOTE.
 
 ### INPUT DATA:
 1. **userInstruction**: The specific task (e.g., "Summarize", "Explain").
 2. **selectedText**: The core subject.
-3. **parentNoteContent**: Context from the source note.
-4. **backgroundReferences** (Optional): Additional factual context. Use this to enrich the content.
+3. **parentNoteContent** / **parentNoteSection** (Optional): Context from the source note, in full or just the section around the selection.
+4. **linkedNotes** / **folderNotes** (Optional): Notes linked to the source note, or next to it in its folder.
+5. **backgroundReferences** (Optional): Additional factual context. Use this to enrich the content.
 
 ### OUTPUT FORMAT RULES (CRITICAL):
 1. Output ONLY a valid, parseable JSON object.
@@ -37,6 +220,9 @@ Your goal is to process the user's input and generate a structured JSON response
    - "title": A concise, safe filename.
    - "content": Detailed Markdown body. Synthesize the "selectedText" with "backgroundReferences".
    - "anchorLabel": A short (2-5 words) summary phrase for the link.
+4. Optionally, the JSON may also have:
+   - "tags": An array of 1-5 short topic tags (no "#", no spaces).
+   - "aliases": An array of alternative names for the note.
 
 ### STRICT REQUIREMENTS:
 - **Language**: Match the language of the \`selectedText\`.
@@ -56,26 +242,165 @@ Your goal is to process the user's input and generate a structured JSON response
 3. **No Filler**: Return ONLY the result text. No "Here is the text".
 
 ### OUTPUT:
-Return ONLY the raw text to be inserted.`
+Return ONLY the raw text to be inserted.`,
+    chatMetaPrompt: `You are a helpful assistant inside Obsidian, discussing the user's notes with them.
+
+### RULES:
+1. **Grounding**: Base your answers on the ACTIVE NOTE and BACKGROUND REFERENCES when they are relevant, and say so when they do not cover the question.
+2. **Format**: Answer in Markdown that can be pasted into a note as-is. Use [[wikilinks]] only for notes that appear in the context.
+3. **Brevity**: Keep answers focused; do not repeat the question.`,
+    continueMetaPrompt: `You are a writing assistant inside Obsidian. Continue the user's text from the cursor.
+
+### RULES:
+1. **Seamless**: Start exactly where the TEXT BEFORE THE CURSOR stops, including a leading space or line break if one is needed. Never repeat text that is already there.
+2. **Style**: Match the language, tone, tense and Markdown formatting of the note.
+3. **Fit**: When there is TEXT AFTER THE CURSOR, write something that leads into it.
+4. **Length**: Write at most one paragraph or a few list items.
+
+### OUTPUT:
+Return ONLY the continuation. No commentary, no code fences.`
 };
 
+export interface ChatMessage {
+    role: 'user' | 'model';
+    content: string;
+}
+
 export interface GenerationRequest {
     instructionPath: string;
     instructionContent: string;
-    contextType: 'selection_only' | 'selection_and_full_note';
+    contextType: ContextType;
     saveLocation: string;
     selectedText: string;
     contextBefore: string; // Text preceding the selection
     contextAfter: string;  // Text following the selection
     parentNoteContent: string;
     parentNoteTitle: string;
+    sectionContent: string; // Heading section enclosing the selection (selection_and_section)
+    scopeNotesContext: string; // Content of the linked or folder notes of the context scope
+    scopeNotePaths: string[]; // Paths of the notes in scopeNotesContext
     backgroundContext: string; // Content of manually selected reference files
+    backgroundFilePaths: string[]; // Paths of the files in backgroundContext
     outputAction: OutputAction;
+    collisionStrategy?: NoteCollisionStrategy; // Falls back to the setting when unset
+    temperature?: number; // Sampling temperature override from the instruction frontmatter or profile
+    maxOutputTokens?: number; // Output length cap from the chosen profile
+    attachments?: PromptAttachment[]; // Files embedded in the selection (and background files)
+    citeReferences?: boolean; // Ask the model to cite the background files it draws on
+    overrides?: InstructionOverrides; // Frontmatter overrides of the run, so a history re-run resolves the same settings
+    profile?: ModelProfile; // Profile picked for the run, for the same reason
+    promptOverride?: string; // Sent instead of the assembled prompt (edited in the prompt preview)
+}
+
+/**
+ * Per-run overrides read from an instruction file's YAML frontmatter.
+ */
+export interface InstructionOverrides {
+    provider?: ProviderId;
+    model?: string;
+    outputAction?: OutputAction;
+    contextType?: ContextType;
+    saveLocation?: string;
+    temperature?: number;
+    metaPrompt?: string; // Replaces the meta prompt of the chosen output action
 }
 
 export interface GenerationResponse {
     title: string;
     content: string;
     anchorLabel?: string; // Optional field for smarter linking
+    tags?: string[]; // Model-suggested tags for created notes
+    aliases?: string[]; // Model-suggested aliases for created notes
     isFallback: boolean;
-}
\ No newline at end of file
+    rawText: string; // Unparsed model output
+}
+
+/**
+ * Outcome of a logged generation: written to the note, only copied to the
+ * clipboard because the selection changed, waiting in or rejected from the
+ * review dialog, or failed.
+ */
+export type HistoryStatus = 'success' | 'copied' | 'review_pending' | 'rejected' | 'error';
+
+/**
+ * A logged generation. The request is stored without the parent note and
+ * background file bodies; those are re-read from the vault on re-run.
+ */
+export interface HistoryEntry {
+    id: string;
+    timestamp: number;
+    durationMs: number;
+    status: HistoryStatus;
+    error?: string;
+    provider: ProviderId;
+    model: string;
+    outputAction: OutputAction;
+    request: Omit<GenerationRequest, 'parentNoteContent' | 'backgroundContext' | 'sectionContent' | 'scopeNotesContext' | 'attachments'>;
+    rawResponse: string;
+    target: { filePath: string; from: number; to: number };
+    createdNotePath?: string; // Set when the generation created a note
+}
+/**
+ * A vault file sent to the model as inline data next to the prompt text.
+ */
+export interface PromptAttachment {
+    name: string; // Vault path, used to refer to the file in the prompt
+    mimeType: string;
+    data: string; // Base64-encoded file content
+}
+
+/**
+ * Where batch results go: over the note body, after it, or into a new note.
+ */
+export type BatchOutputMode = 'replace_note' | 'append_to_note' | 'create_note';
+
+export const BATCH_OUTPUT_LABELS: Record<BatchOutputMode, string> = {
+    replace_note: 'Replace Note Body',
+    append_to_note: 'Append to Note',
+    create_note: 'Create New Note'
+};
+
+export interface BatchItem {
+    path: string;
+    status: 'pending' | 'running' | 'done' | 'failed';
+    error?: string;
+    note?: string; // What was left out of the request: trimmed text, skipped attachments
+    createdNotePath?: string; // Set in create_note mode
+}
+
+/**
+ * One instruction applied to a list of notes. Persisted, so a paused or
+ * interrupted batch can continue after a restart.
+ */
+export interface BatchJob {
+    id: string;
+    createdAt: number;
+    instructionPath: string;
+    provider: ProviderId;
+    model: string;
+    outputMode: BatchOutputMode;
+    saveLocation: string; // Folder for created notes, empty for next to the source note
+    state: 'running' | 'paused' | 'finished';
+    items: BatchItem[];
+}
+
+export interface ProviderGenerateOptions {
+    temperature?: number;
+    maxOutputTokens?: number;
+    jsonSchema?: object; // Request native JSON output matching this schema
+    attachments?: PromptAttachment[]; // Images and PDFs sent after the prompt text
+    signal?: AbortSignal; // Cancels the request; it then rejects with a 'cancelled' ProviderError
+}
+
+/**
+ * A text-generation backend. Implementations take a fully assembled prompt
+ * and return the raw model output.
+ */
+export interface LLMProvider {
+    readonly id: ProviderId;
+    readonly modelName: string;
+    generate(prompt: string, options?: ProviderGenerateOptions): Promise<string>;
+    stream(prompt: string, onChunk: (chunk: string) => void, options?: ProviderGenerateOptions): Promise<string>;
+    countTokens?(text: string): Promise<number>; // Exact count, where the API offers one
+    listModels?(): Promise<ModelInfo[]>; // Models usable for generation, where the API lists them
+}
@@ -0,0 +1,221 @@
+import { App, TAbstractFile, TFile } from "obsidian";
+import { CJK_RANGES } from "./tokenBudget";
+
+export interface IndexMatch {
+    file: TFile;
+    score: number;
+}
+
+interface IndexedDocument {
+    termFrequencies: Map<string, number>;
+    length: number;
+}
+
+// BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+
+// Modified notes are re-indexed after this quiet period, so typing does not re-read the note on every keystroke
+const UPDATE_DELAY_MS = 2000;
+
+const TOKEN_SEPARATOR = /[\s.,;:!?()\[\]{}"'`*_#>|\/\\<=+~^$%&@\-]+/;
+
+// Splits a word into CJK runs and the text between them
+const CJK_SEGMENT = new RegExp(`[${CJK_RANGES}]+|[^${CJK_RANGES}]+`, 'g');
+const CJK_START = new RegExp(`^[${CJK_RANGES}]`);
+
+const STOP_WORDS = new Set([
+    "a", "an", "and", "are", "as", "at", "be", "but", "by", "for", "from", "has", "have", "in", "is", "it",
+    "its", "of", "on", "or", "that", "the", "this", "to", "was", "were", "will", "with", "you", "your",
+    "we", "our", "they", "their", "not", "can", "if", "then", "than", "so", "do", "does", "which", "what"
+]);
+
+/**
+ * In-memory BM25 index over the vault's markdown notes. Built once after
+ * startup and kept current from vault events.
+ */
+export class VaultIndex {
+    private app: App;
+    private documents: Map<string, IndexedDocument> = new Map();
+    private documentFrequencies: Map<string, number> = new Map();
+    private totalLength = 0;
+    private pendingUpdates: Set<string> = new Set();
+    private updateTimer: number | null = null;
+    private ready = false;
+    private generation = 0; // Bumped by clear(), so reads started before it are discarded
+
+    constructor(app: App) {
+        this.app = app;
+    }
+
+    isReady(): boolean {
+        return this.ready;
+    }
+
+    async build() {
+        this.clear();
+        const generation = this.generation;
+        for (const file of this.app.vault.getMarkdownFiles()) {
+            await this.indexFile(file, generation);
+            // Cleared (suggestions turned off, plugin unloaded) or rebuilt meanwhile
+            if (generation !== this.generation) return;
+        }
+        this.ready = true;
+    }
+
+    clear() {
+        this.generation++;
+        this.documents.clear();
+        this.documentFrequencies.clear();
+        this.totalLength = 0;
+        this.pendingUpdates.clear();
+        if (this.updateTimer !== null) {
+            window.clearTimeout(this.updateTimer);
+            this.updateTimer = null;
+        }
+        this.ready = false;
+    }
+
+    handleModify(file: TAbstractFile) {
+        if (!this.ready || !isMarkdown(file)) return;
+        this.pendingUpdates.add(file.path);
+        if (this.updateTimer !== null) window.clearTimeout(this.updateTimer);
+        this.updateTimer = window.setTimeout(() => this.flushUpdates(), UPDATE_DELAY_MS);
+    }
+
+    handleDelete(file: TAbstractFile) {
+        if (!this.ready) return;
+        this.pendingUpdates.delete(file.path);
+        this.removeDocument(file.path);
+    }
+
+    handleRename(file: TAbstractFile, oldPath: string) {
+        if (!this.ready) return;
+        if (this.pendingUpdates.delete(oldPath)) this.pendingUpdates.add(file.path);
+        const document = this.documents.get(oldPath);
+        if (!document) {
+            this.handleModify(file);
+            return;
+        }
+        this.documents.delete(oldPath);
+        if (isMarkdown(file)) {
+            // The file name is indexed with the text, so re-read it to drop the old name's terms
+            this.documents.set(file.path, document);
+            this.handleModify(file);
+        } else {
+            this.forgetTerms(document);
+        }
+    }
+
+    /**
+     * Returns the best matching notes for the query text, highest score first.
+     */
+    search(query: string, limit: number, exclude: Set<string> = new Set()): IndexMatch[] {
+        const queryTerms = Array.from(new Set(tokenize(query)));
+        if (queryTerms.length === 0 || this.documents.size === 0) return [];
+
+        const documentCount = this.documents.size;
+        const averageLength = this.totalLength / documentCount || 1;
+        const scores: Map<string, number> = new Map();
+
+        queryTerms.forEach(term => {
+            const frequency = this.documentFrequencies.get(term);
+            if (!frequency) return;
+            const idf = Math.log(1 + (documentCount - frequency + 0.5) / (frequency + 0.5));
+            this.documents.forEach((document, path) => {
+                const tf = document.termFrequencies.get(term);
+                if (!tf || exclude.has(path)) return;
+                const score = idf * (tf * (K1 + 1)) / (tf + K1 * (1 - B + B * document.length / averageLength));
+                scores.set(path, (scores.get(path) || 0) + score);
+            });
+        });
+
+        const matches: IndexMatch[] = [];
+        scores.forEach((score, path) => {
+            const file = this.app.vault.getAbstractFileByPath(path);
+            if (file instanceof TFile) matches.push({ file, score });
+        });
+        return matches.sort((a, b) => b.score - a.score).slice(0, limit);
+    }
+
+    private async flushUpdates() {
+        this.updateTimer = null;
+        const generation = this.generation;
+        const paths = Array.from(this.pendingUpdates);
+        this.pendingUpdates.clear();
+        for (const path of paths) {
+            if (generation !== this.generation) return;
+            const file = this.app.vault.getAbstractFileByPath(path);
+            if (file instanceof TFile) {
+                await this.indexFile(file, generation);
+            } else {
+                this.removeDocument(path);
+            }
+        }
+    }
+
+    private async indexFile(file: TFile, generation: number) {
+        let content: string;
+        try {
+            content = await this.app.vault.cachedRead(file);
+        } catch (e) {
+            console.warn(`Failed to index ${file.path}:`, e);
+            return;
+        }
+        if (generation !== this.generation) return;
+
+        this.removeDocument(file.path);
+        // The file name counts as part of the text, so titles match too
+        const terms = tokenize(`${file.basename}\n${content}`);
+        const termFrequencies: Map<string, number> = new Map();
+        terms.forEach(term => termFrequencies.set(term, (termFrequencies.get(term) || 0) + 1));
+        termFrequencies.forEach((_, term) => {
+            this.documentFrequencies.set(term, (this.documentFrequencies.get(term) || 0) + 1);
+        });
+        this.documents.set(file.path, { termFrequencies, length: terms.length });
+        this.totalLength += terms.length;
+    }
+
+    private removeDocument(path: string) {
+        const document = this.documents.get(path);
+        if (!document) return;
+        this.documents.delete(path);
+        this.forgetTerms(document);
+    }
+
+    private forgetTerms(document: IndexedDocument) {
+        this.totalLength -= document.length;
+        document.termFrequencies.forEach((_, term) => {
+            const frequency = (this.documentFrequencies.get(term) || 1) - 1;
+            if (frequency > 0) {
+                this.documentFrequencies.set(term, frequency);
+            } else {
+                this.documentFrequencies.delete(term);
+            }
+        });
+    }
+}
+
+function isMarkdown(file: TAbstractFile): file is TFile {
+    return file instanceof TFile && file.extension === 'md';
+}
+
+/**
+ * Lower-cased words without stop words and numbers. CJK text has no spaces
+ * between words, so its runs become overlapping character bigrams instead.
+ */
+function tokenize(text: string): string[] {
+    const terms: string[] = [];
+    text.toLowerCase().split(TOKEN_SEPARATOR).forEach(word => {
+        (word.match(CJK_SEGMENT) || []).forEach(segment => {
+            if (!CJK_START.test(segment)) {
+                if (segment.length > 1 && !STOP_WORDS.has(segment) && !/^\d+$/.test(segment)) terms.push(segment);
+            } else if (segment.length === 1) {
+                terms.push(segment);
+            } else {
+                for (let i = 0; i < segment.length - 1; i++) terms.push(segment.slice(i, i + 2));
+            }
+        });
+    });
+    return terms;
+}
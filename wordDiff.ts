@@ -0,0 +1,95 @@
+export type DiffPartType = 'equal' | 'added' | 'removed';
+
+export interface DiffPart {
+    type: DiffPartType;
+    text: string;
+}
+
+// Above this many token pairs the LCS table gets too large; fall back to a coarse diff
+const MAX_LCS_CELLS = 4000000;
+
+/**
+ * Word-level diff between two texts. Whitespace runs are kept as their own
+ * tokens so the parts can be joined back into either text.
+ */
+export function diffWords(original: string, revised: string): DiffPart[] {
+    const a = tokenize(original);
+    const b = tokenize(revised);
+
+    // Trim the common prefix and suffix before running the LCS
+    let prefix = 0;
+    while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+    let suffix = 0;
+    while (
+        suffix < a.length - prefix &&
+        suffix < b.length - prefix &&
+        a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+    ) suffix++;
+
+    const parts: DiffPart[] = [];
+    push(parts, 'equal', a.slice(0, prefix).join(""));
+
+    const midA = a.slice(prefix, a.length - suffix);
+    const midB = b.slice(prefix, b.length - suffix);
+    if (midA.length * midB.length > MAX_LCS_CELLS) {
+        push(parts, 'removed', midA.join(""));
+        push(parts, 'added', midB.join(""));
+    } else {
+        diffTokens(midA, midB).forEach(part => push(parts, part.type, part.text));
+    }
+
+    push(parts, 'equal', a.slice(a.length - suffix).join(""));
+    return parts;
+}
+
+function tokenize(text: string): string[] {
+    return text.match(/\s+|[^\s]+/g) || [];
+}
+
+function push(parts: DiffPart[], type: DiffPartType, text: string) {
+    if (!text) return;
+    const last = parts[parts.length - 1];
+    if (last && last.type === type) {
+        last.text += text;
+    } else {
+        parts.push({ type, text });
+    }
+}
+
+function diffTokens(a: string[], b: string[]): DiffPart[] {
+    const n = a.length;
+    const m = b.length;
+
+    // lengths[i][j] = LCS length of a[i..] and b[j..]
+    const lengths: number[][] = [];
+    for (let i = 0; i <= n; i++) {
+        lengths.push(new Array(m + 1).fill(0));
+    }
+    for (let i = n - 1; i >= 0; i--) {
+        for (let j = m - 1; j >= 0; j--) {
+            lengths[i][j] = a[i] === b[j]
+                ? lengths[i + 1][j + 1] + 1
+                : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+        }
+    }
+
+    const parts: DiffPart[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < n && j < m) {
+        if (a[i] === b[j]) {
+            push(parts, 'equal', a[i]);
+            i++;
+            j++;
+        } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+            push(parts, 'removed', a[i]);
+            i++;
+        } else {
+            push(parts, 'added', b[j]);
+            j++;
+        }
+    }
+    while (i < n) push(parts, 'removed', a[i++]);
+    while (j < m) push(parts, 'added', b[j++]);
+    return parts;
+}